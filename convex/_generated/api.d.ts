@@ -9,9 +9,33 @@
  */
 
 import type * as analytics from "../analytics.js";
-import type * as auth from "../auth.js";
+import type * as crons from "../crons.js";
+import type * as exports from "../exports.js";
+import type * as http from "../http.js";
+import type * as ingest from "../ingest.js";
+import type * as lib_audience from "../lib/audience.js";
+import type * as lib_auth from "../lib/auth.js";
+import type * as lib_embed from "../lib/embed.js";
+import type * as lib_experiments from "../lib/experiments.js";
+import type * as lib_export from "../lib/export.js";
+import type * as lib_locale from "../lib/locale.js";
+import type * as lib_officialTemplates from "../lib/officialTemplates.js";
+import type * as lib_rollups from "../lib/rollups.js";
+import type * as lib_stats from "../lib/stats.js";
+import type * as lib_tourModel from "../lib/tourModel.js";
+import type * as lib_urlMatch from "../lib/urlMatch.js";
+import type * as lib_userAgent from "../lib/userAgent.js";
+import type * as lib_versions from "../lib/versions.js";
+import type * as lib_webhooks from "../lib/webhooks.js";
+import type * as migrations from "../migrations.js";
+import type * as rollups from "../rollups.js";
+import type * as templates from "../templates.js";
 import type * as tours from "../tours.js";
 import type * as users from "../users.js";
+import type * as validators from "../validators.js";
+import type * as variants from "../variants.js";
+import type * as versions from "../versions.js";
+import type * as webhooks from "../webhooks.js";
 
 import type {
   ApiFromModules,
@@ -21,9 +45,33 @@ import type {
 
 declare const fullApi: ApiFromModules<{
   analytics: typeof analytics;
-  auth: typeof auth;
+  crons: typeof crons;
+  exports: typeof exports;
+  http: typeof http;
+  ingest: typeof ingest;
+  "lib/audience": typeof lib_audience;
+  "lib/auth": typeof lib_auth;
+  "lib/embed": typeof lib_embed;
+  "lib/experiments": typeof lib_experiments;
+  "lib/export": typeof lib_export;
+  "lib/locale": typeof lib_locale;
+  "lib/officialTemplates": typeof lib_officialTemplates;
+  "lib/rollups": typeof lib_rollups;
+  "lib/stats": typeof lib_stats;
+  "lib/tourModel": typeof lib_tourModel;
+  "lib/urlMatch": typeof lib_urlMatch;
+  "lib/userAgent": typeof lib_userAgent;
+  "lib/versions": typeof lib_versions;
+  "lib/webhooks": typeof lib_webhooks;
+  migrations: typeof migrations;
+  rollups: typeof rollups;
+  templates: typeof templates;
   tours: typeof tours;
   users: typeof users;
+  validators: typeof validators;
+  variants: typeof variants;
+  versions: typeof versions;
+  webhooks: typeof webhooks;
 }>;
 
 /**
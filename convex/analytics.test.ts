@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { convexTest } from 'convex-test';
+import { api } from './_generated/api';
+import schema from './schema';
+import { modules } from './test.setup';
+
+// The step funnel picks sessions by start time and follows them to the end
+
+const START = Date.parse('2026-03-10T12:00:00Z');
+const MINUTE_MS = 60 * 1000;
+
+describe('getStepFunnel', () => {
+    it('counts the steps of sessions that run past the end of the range', async () => {
+        const t = convexTest(schema, modules);
+        const as = t.withIdentity({ subject: 'alice', email: 'alice@example.com' });
+        await as.mutation(api.users.upsertUser, {});
+        const tourId = await as.mutation(api.tours.createTour, {
+            name: 'Onboarding',
+            steps: [
+                { stepId: 'one', title: 'One', content: '' },
+                { stepId: 'two', title: 'Two', content: '' },
+            ],
+        });
+
+        await t.run(async (ctx) => {
+            // One session inside the range, one started after it
+            for (const [sessionId, startedAt] of [
+                ['ses_in', START],
+                ['ses_after', START + 10 * MINUTE_MS],
+            ] as const) {
+                await ctx.db.insert('sessions', {
+                    tourId,
+                    sessionId,
+                    startedAt,
+                    completedAt: startedAt + 2 * MINUTE_MS,
+                    userAgent: 'vitest',
+                    browser: 'chrome',
+                    device: 'desktop',
+                    os: 'linux',
+                    screenResolution: '1920x1080',
+                    totalSteps: 2,
+                    stepsCompleted: 2,
+                    stepsSkipped: 0,
+                    currentStep: 1,
+                    status: 'completed',
+                    pageUrl: 'https://example.com',
+                });
+                for (const [i, stepId] of ['one', 'two'].entries()) {
+                    for (const eventType of ['step_viewed', 'step_completed'] as const) {
+                        await ctx.db.insert('stepEvents', {
+                            tourId,
+                            sessionId,
+                            stepId,
+                            stepOrder: i,
+                            eventType,
+                            timestamp: startedAt + i * MINUTE_MS,
+                        });
+                    }
+                }
+            }
+        });
+
+        // Ends while the first session is still on step one
+        const funnel = await as.query(api.analytics.getStepFunnel, { tourId, from: START, to: START + MINUTE_MS });
+        expect(funnel).toMatchObject({ totalSessions: 1, totalCompleted: 1 });
+        expect(funnel.steps.map((step) => [step.stepId, step.viewed, step.completed, step.dropOffRate])).toEqual([
+            ['one', 1, 1, 0],
+            ['two', 1, 1, 0],
+        ]);
+    });
+});
@@ -1,238 +1,536 @@
-import { mutation, query } from './_generated/server';
-import type { MutationCtx, QueryCtx } from './_generated/server';
+import { query } from './_generated/server';
+import type { QueryCtx } from './_generated/server';
 import { Id, Doc } from './_generated/dataModel';
 import { v } from 'convex/values';
+import { requireSessionOwner, requireTourOwner, requireViewer } from './lib/auth';
+import { percentile, twoProportionZTest, wilsonInterval } from './lib/stats';
+import { STEP_REACHED_EVENTS, lastUtcDays, sumCounts } from './lib/rollups';
+import { getVersion } from './lib/versions';
 
-// Record when a user starts a tour
-export const startTour = mutation({
-	args: {
-		tourId: v.string(),
-		userId: v.string(),
-	},
-    handler: async (ctx: MutationCtx, args: { tourId: string; userId: string }) => {
-		const now = Date.now();
-		const analyticsId = await ctx.db.insert('tourAnalytics', {
-			tourId: args.tourId,
-			userId: args.userId,
-			startedAt: now,
-			stepProgress: [],
-		});
-
-		return analyticsId;
-	},
-});
+// Widget telemetry is written by the HTTP ingestion endpoint (see http.ts and
+// ingest.ts); this module only reads it back for the dashboard.
+
+// Steps in tour order, then any seen in events for since-deleted steps. A
+// version is reported in the order it was published with.
+const reportedStepIds = async (
+    ctx: QueryCtx,
+    tourId: Id<'tours'>,
+    version: number | undefined,
+    seen: Iterable<string>
+) => {
+    const published = version === undefined ? null : await getVersion(ctx, tourId, version);
+    const ordered = published
+        ? published.snapshot.steps.map((s, i) => s.stepId ?? `step-${i + 1}`)
+        : (
+              await ctx.db
+                  .query('steps')
+                  .withIndex('by_tourId_order', (q) => q.eq('tourId', tourId))
+                  .collect()
+          ).map((s) => s.stepId);
+    return [...new Set([...ordered, ...seen])];
+};
+
+// Get analytics for a specific tour, optionally for one published version.
+// Read from the daily rollups, so it trails live traffic by up to an hour.
+export const getTourAnalytics = query({
+    args: {
+        tourId: v.id('tours'),
+        version: v.optional(v.number()),
+    },
+    handler: async (ctx: QueryCtx, args: { tourId: Id<'tours'>; version?: number }) => {
+        await requireTourOwner(ctx, args.tourId);
+        const { version } = args;
+
+        // The totals aren't kept per version, but the per-variant rows are
+        let totalStarted = 0;
+        let totalCompleted = 0;
+        if (version === undefined) {
+            const totals = await ctx.db
+                .query('tourStatsTotals')
+                .withIndex('by_tourId', (q) => q.eq('tourId', args.tourId))
+                .first();
+            totalStarted = totals?.started ?? 0;
+            totalCompleted = totals?.completed ?? 0;
+        } else {
+            const rows = await ctx.db
+                .query('variantDailyStats')
+                .withIndex('by_tourId_version', (q) => q.eq('tourId', args.tourId).eq('version', version))
+                .collect();
+            for (const row of rows) {
+                totalStarted += row.started;
+                totalCompleted += row.completed;
+            }
+        }
+
+        // Calculate completion rate
+        const completionRate =
+            totalStarted > 0 ? (totalCompleted / totalStarted) * 100 : 0;
 
-// Record when a user completes a step
-export const completeStep = mutation({
-	args: {
-		analyticsId: v.id('tourAnalytics'),
-		stepId: v.string(),
-	},
-    handler: async (ctx: MutationCtx, args: { analyticsId: Id<'tourAnalytics'>; stepId: string }) => {
-		const analyticsRecord = await ctx.db.get(args.analyticsId);
-		if (!analyticsRecord) {
-			throw new Error('Analytics record not found');
-		}
-
-		const now = Date.now();
-		const updatedProgress = [...analyticsRecord.stepProgress];
-
-		// Find if step already exists
-		const stepIndex = updatedProgress.findIndex(
-			(step) => step.stepId === args.stepId
-		);
-
-		if (stepIndex >= 0) {
-			// Update existing step
-			updatedProgress[stepIndex] = {
-				...updatedProgress[stepIndex],
-				completedAt: now,
-			};
-		} else {
-			// Add new step
-			updatedProgress.push({
-				stepId: args.stepId,
-				startedAt: now,
-				completedAt: now,
-			});
-		}
-
-		await ctx.db.patch(args.analyticsId, {
-			stepProgress: updatedProgress,
-		});
-
-		return args.analyticsId;
-	},
+        // Calculate step completion rates from the sessions that reached each step
+        const stepRows = await ctx.db
+            .query('stepDailyStats')
+            .withIndex('by_tourId_version', (q) =>
+                version === undefined ? q.eq('tourId', args.tourId) : q.eq('tourId', args.tourId).eq('version', version)
+            )
+            .collect();
+
+        const stepCompletion = new Map<string, { reached: number; completed: number }>();
+        for (const row of stepRows) {
+            const entry = stepCompletion.get(row.stepId) ?? { reached: 0, completed: 0 };
+            entry.reached += row.reached;
+            entry.completed += row.completed;
+            stepCompletion.set(row.stepId, entry);
+        }
+
+        const stepIds = await reportedStepIds(ctx, args.tourId, version, stepCompletion.keys());
+
+        const stepCompletionRates = stepIds.map((stepId) => {
+            const data = stepCompletion.get(stepId);
+            return {
+                stepId,
+                completionRate:
+                    data && data.reached > 0
+                        ? (data.completed / data.reached) * 100
+                        : 0,
+            };
+        });
+
+        return {
+            totalStarted,
+            totalCompleted,
+            completionRate,
+            stepCompletionRates,
+        };
+    },
 });
 
-// Record when a user completes a tour
-export const completeTour = mutation({
-	args: {
-		analyticsId: v.id('tourAnalytics'),
-	},
-    handler: async (ctx: MutationCtx, args: { analyticsId: Id<'tourAnalytics'> }) => {
-		const now = Date.now();
-		await ctx.db.patch(args.analyticsId, {
-			completedAt: now,
-		});
-
-		return args.analyticsId;
-	},
+// Events that report a step failing to show or to advance
+const FAILURE_EVENTS = new Set<Doc<'stepEvents'>['eventType']>(['element_not_found', 'timeout', 'interaction_failed']);
+
+// Events that end a visitor's time on a step; their `timeOnStep` is what the
+// funnel's timings are computed from
+const STEP_EXIT_EVENTS = new Set<Doc<'stepEvents'>['eventType']>(['step_completed', 'step_skipped', 'step_back']);
+
+const TOP_FAILURES = 5;
+
+type FunnelArgs = {
+    tourId: Id<'tours'>;
+    from?: number;
+    to?: number;
+    device?: string;
+    browser?: string;
+    version?: number;
+};
+
+type StepTally = {
+    viewed: Set<string>;
+    completed: Set<string>;
+    skipped: Set<string>;
+    back: Set<string>;
+    times: number[];
+    failures: Map<string, { eventType: string; errorMessage: string | null; count: number }>;
+};
+
+const emptyTally = (): StepTally => ({
+    viewed: new Set(),
+    completed: new Set(),
+    skipped: new Set(),
+    back: new Set(),
+    times: [],
+    failures: new Map(),
 });
 
-// Record when a user abandons a tour
-export const abandonTour = mutation({
-	args: {
-		analyticsId: v.id('tourAnalytics'),
-	},
-    handler: async (ctx: MutationCtx, args: { analyticsId: Id<'tourAnalytics'> }) => {
-		const now = Date.now();
-		await ctx.db.patch(args.analyticsId, {
-			abandonedAt: now,
-		});
-
-		return args.analyticsId;
-	},
+// Per-step funnel of a tour: how many sessions reached each step, how they
+// left it, how long they stayed and why it failed. Sessions can be filtered
+// by start time (`from` inclusive, `to` exclusive), device, browser and
+// published version. Counts are sessions, rates percentages, times milliseconds.
+export const getStepFunnel = query({
+    args: {
+        tourId: v.id('tours'),
+        from: v.optional(v.number()),
+        to: v.optional(v.number()),
+        device: v.optional(v.string()),
+        browser: v.optional(v.string()),
+        version: v.optional(v.number()),
+    },
+    handler: async (ctx: QueryCtx, args: FunnelArgs) => {
+        await requireTourOwner(ctx, args.tourId);
+
+        const sessions = (
+            await ctx.db
+                .query('sessions')
+                .withIndex('by_tourId_startedAt', (q) =>
+                    q
+                        .eq('tourId', args.tourId)
+                        .gte('startedAt', args.from ?? 0)
+                        .lt('startedAt', args.to ?? Number.MAX_SAFE_INTEGER)
+                )
+                .collect()
+        ).filter(
+            (s) =>
+                (!args.device || s.device === args.device.toLowerCase()) &&
+                (!args.browser || s.browser === args.browser.toLowerCase()) &&
+                (args.version === undefined || s.tourVersion === args.version)
+        );
+        const included = new Set(sessions.map((s) => s.sessionId));
+        const completedTour = new Set(sessions.filter((s) => s.status === 'completed').map((s) => s.sessionId));
+
+        // None of an included session's events come before it started, but a
+        // session started before `to` can carry on past it
+        const events = await ctx.db
+            .query('stepEvents')
+            .withIndex('by_tourId_timestamp', (q) => q.eq('tourId', args.tourId).gte('timestamp', args.from ?? 0))
+            .collect();
+
+        const tallies = new Map<string, StepTally>();
+        for (const event of events) {
+            if (!included.has(event.sessionId)) continue;
+            let tally = tallies.get(event.stepId);
+            if (!tally) {
+                tally = emptyTally();
+                tallies.set(event.stepId, tally);
+            }
+
+            if (STEP_REACHED_EVENTS.has(event.eventType)) tally.viewed.add(event.sessionId);
+            if (event.eventType === 'step_completed') tally.completed.add(event.sessionId);
+            if (event.eventType === 'step_skipped') tally.skipped.add(event.sessionId);
+            if (event.eventType === 'step_back') tally.back.add(event.sessionId);
+            if (STEP_EXIT_EVENTS.has(event.eventType) && event.timeOnStep !== undefined) {
+                tally.times.push(event.timeOnStep);
+            }
+            if (FAILURE_EVENTS.has(event.eventType)) {
+                const errorMessage = event.metadata?.errorMessage ?? null;
+                const key = `${event.eventType}:${errorMessage}`;
+                const failure = tally.failures.get(key) ?? { eventType: event.eventType, errorMessage, count: 0 };
+                failure.count++;
+                tally.failures.set(key, failure);
+            }
+        }
+
+        const stepIds = await reportedStepIds(ctx, args.tourId, args.version, tallies.keys());
+        const steps = stepIds.map((stepId, i) => {
+            const tally = tallies.get(stepId) ?? emptyTally();
+            // Sessions that made it past this step: on to the next one, or
+            // through the whole tour for the last
+            const next = i + 1 < stepIds.length ? tallies.get(stepIds[i + 1])?.viewed : completedTour;
+            const continued = [...tally.viewed].filter((id) => next?.has(id)).length;
+            const viewed = tally.viewed.size;
+
+            return {
+                stepId,
+                order: i + 1,
+                viewed,
+                completed: tally.completed.size,
+                skipped: tally.skipped.size,
+                back: tally.back.size,
+                medianTimeOnStep: percentile(tally.times, 50),
+                p90TimeOnStep: percentile(tally.times, 90),
+                dropOffRate: viewed > 0 ? ((viewed - continued) / viewed) * 100 : 0,
+                topFailures: [...tally.failures.values()].sort((a, b) => b.count - a.count).slice(0, TOP_FAILURES),
+            };
+        });
+
+        return {
+            totalSessions: sessions.length,
+            totalCompleted: completedTour.size,
+            steps,
+        };
+    },
 });
 
-// Get analytics for a specific tour
-export const getTourAnalytics = query({
-	args: {
-		tourId: v.string(),
-	},
-    handler: async (ctx: QueryCtx, args: { tourId: string }) => {
-		const analytics = await ctx.db
-			.query('tourAnalytics')
-			.withIndex('by_tour', (q) => q.eq('tourId', args.tourId))
-			.collect();
-
-		// Calculate completion rate
-		const totalStarted = analytics.length;
-		const totalCompleted = analytics.filter((a) => a.completedAt).length;
-		const completionRate =
-			totalStarted > 0 ? (totalCompleted / totalStarted) * 100 : 0;
-
-		// Calculate step completion rates
-		const stepCompletion: Record<
-			string,
-			{ started: number; completed: number }
-		> = {};
-
-		for (const record of analytics) {
-			for (const step of record.stepProgress) {
-				if (!stepCompletion[step.stepId]) {
-					stepCompletion[step.stepId] = { started: 0, completed: 0 };
-				}
-				stepCompletion[step.stepId].started += 1;
-				if (step.completedAt) {
-					stepCompletion[step.stepId].completed += 1;
-				}
-			}
-		}
-
-		const stepCompletionRates = Object.entries(stepCompletion).map(
-			([stepId, data]) => ({
-				stepId,
-				completionRate:
-					data.started > 0
-						? (data.completed / data.started) * 100
-						: 0,
-			})
-		);
-
-		return {
-			totalStarted,
-			totalCompleted,
-			completionRate,
-			stepCompletionRates,
-		};
-	},
+const DEFAULT_COMMENT_LIMIT = 20;
+
+const FEEDBACK_TYPES: Doc<'feedback'>['feedbackType'][] = [
+    'helpful',
+    'confusing',
+    'too_long',
+    'too_short',
+    'technical_issue',
+    'other',
+];
+
+// Ratings and comments visitors left on a tour, optionally limited to a time
+// range (`from` inclusive, `to` exclusive) or one published version
+export const getFeedbackSummary = query({
+    args: {
+        tourId: v.id('tours'),
+        from: v.optional(v.number()),
+        to: v.optional(v.number()),
+        version: v.optional(v.number()),
+        commentLimit: v.optional(v.number()),
+    },
+    handler: async (
+        ctx: QueryCtx,
+        args: { tourId: Id<'tours'>; from?: number; to?: number; version?: number; commentLimit?: number }
+    ) => {
+        await requireTourOwner(ctx, args.tourId);
+
+        const feedback = (
+            await ctx.db
+                .query('feedback')
+                .withIndex('by_tourId_timestamp', (q) =>
+                    q
+                        .eq('tourId', args.tourId)
+                        .gte('timestamp', args.from ?? 0)
+                        .lt('timestamp', args.to ?? Number.MAX_SAFE_INTEGER)
+                )
+                .order('desc')
+                .collect()
+        ).filter((f) => args.version === undefined || f.tourVersion === args.version);
+
+        const ratingDistribution = [1, 2, 3, 4, 5].map((rating) => ({
+            rating,
+            count: feedback.filter((f) => f.rating === rating).length,
+        }));
+        const typeBreakdown = FEEDBACK_TYPES.map((feedbackType) => ({
+            feedbackType,
+            count: feedback.filter((f) => f.feedbackType === feedbackType).length,
+        }));
+
+        return {
+            total: feedback.length,
+            averageRating: feedback.length > 0 ? feedback.reduce((sum, f) => sum + f.rating, 0) / feedback.length : null,
+            ratingDistribution,
+            typeBreakdown,
+            recentComments: feedback
+                .filter((f) => f.comment)
+                .slice(0, args.commentLimit || DEFAULT_COMMENT_LIMIT)
+                .map((f) => ({
+                    sessionId: f.sessionId,
+                    rating: f.rating,
+                    feedbackType: f.feedbackType,
+                    comment: f.comment,
+                    tourVersion: f.tourVersion,
+                    timestamp: f.timestamp,
+                })),
+        };
+    },
 });
 
-// Get recent activity across all tours
+// Get recent sessions across the signed-in user's tours
 export const getRecentActivity = query({
-	args: {},
+    args: {},
     handler: async (ctx: QueryCtx) => {
-		const recentAnalytics = await ctx.db
-			.query('tourAnalytics')
-			.order('desc')
-			.take(10);
-
-		const activities = await Promise.all(
-			recentAnalytics.map(async (record) => {
-				let tourName = 'Unknown Tour';
-                try {
-                    const tour = await ctx.db.get(record.tourId as Id<'tours'>);
-                    if (tour && typeof tour.name === 'string') {
-                        tourName = tour.name;
-                    }
-                } catch (e) {
-                    console.error('Failed to fetch tour', e);
-                }
-
-				return {
-					id: record._id,
-					user: record.userId || 'Anonymous',
-					action: record.completedAt ? 'completed' : 'started',
-					target: tourName,
-					timestamp: record._creationTime,
-				};
-			})
-		);
+        const viewer = await requireViewer(ctx);
+        const tours = await ctx.db
+            .query('tours')
+            .withIndex('by_userId', (q) => q.eq('userId', viewer._id))
+            .collect();
+
+        const perTour = await Promise.all(
+            tours.map(async (tour) => {
+                const sessions = await ctx.db
+                    .query('sessions')
+                    .withIndex('by_tourId', (q) => q.eq('tourId', tour._id))
+                    .order('desc')
+                    .take(10);
+                return sessions.map((session) => ({ session, tour }));
+            })
+        );
+
+        const activities = perTour
+            .flat()
+            .sort((a, b) => b.session.startedAt - a.session.startedAt)
+            .slice(0, 10)
+            .map(({ session, tour }) => ({
+                id: session._id,
+                user: session.userId || 'Anonymous',
+                action: session.status === 'in_progress' ? 'started' : session.status,
+                target: tour.name,
+                timestamp: session.startedAt,
+            }));
 
         return activities;
     },
 });
 
-// Owner-wide analytics summary for charts
+// Get a single session with its step events, for drill-down views
+export const getSessionDetails = query({
+    args: {
+        sessionId: v.string(),
+    },
+    handler: async (ctx: QueryCtx, args: { sessionId: string }) => {
+        const { session } = await requireSessionOwner(ctx, args.sessionId);
+
+        const events = await ctx.db
+            .query('stepEvents')
+            .withIndex('by_sessionId', (q) => q.eq('sessionId', args.sessionId))
+            .collect();
+
+        return { session, events };
+    },
+});
+
+// Days shown in the summary's daily chart
+const SUMMARY_DAYS = 7;
+
+// Owner-wide analytics summary for charts, read from the daily rollups, so
+// it trails live traffic by up to an hour. Days are UTC.
 export const getOwnerAnalyticsSummary = query({
-    args: { ownerId: v.string() },
-    handler: async (ctx: QueryCtx, args: { ownerId: string }) => {
+    args: {},
+    handler: async (ctx: QueryCtx) => {
+        const viewer = await requireViewer(ctx);
         const tours: Doc<'tours'>[] = await ctx.db
             .query('tours')
-            .withIndex('by_owner', (q) => q.eq('ownerId', args.ownerId))
+            .withIndex('by_userId', (q) => q.eq('userId', viewer._id))
+            .collect();
+        const totals = await ctx.db
+            .query('tourStatsTotals')
+            .withIndex('by_userId', (q) => q.eq('userId', viewer._id))
             .collect();
 
-        const perTour = [] as Array<{
-            tourId: Id<'tours'>;
-            name: string;
-            completionRate: number;
-            stepsCount: number;
-        }>;
-
-        for (const tour of tours) {
-            const analytics: Doc<'tourAnalytics'>[] = await ctx.db
-                .query('tourAnalytics')
-                .withIndex('by_tour', (q) => q.eq('tourId', tour._id as unknown as string))
+        const perTour = tours.map((tour) => {
+            const stats = totals.find((t) => t.tourId === tour._id);
+            return {
+                tourId: tour._id,
+                name: tour.name,
+                completionRate: stats && stats.started > 0 ? (stats.completed / stats.started) * 100 : 0,
+                stepsCount: tour.totalSteps,
+            };
+        });
+
+        const days = lastUtcDays(Date.now(), SUMMARY_DAYS);
+        const rows = await ctx.db
+            .query('tourDailyStats')
+            .withIndex('by_userId_day', (q) => q.eq('userId', viewer._id).gte('day', days[0]))
+            .collect();
+
+        const completionsByDay = days.map((date) => ({
+            date,
+            completions: sumCounts(rows.filter((row) => row.day === date)).completed,
+        }));
+
+        return { perTour, completionsByDay };
+    },
+});
+
+// Significance level for the variant comparisons
+const ALPHA = 0.05;
+
+const rate = (successes: number, trials: number) => {
+    const [low, high] = wilsonInterval(successes, trials);
+    return {
+        count: successes,
+        rate: trials > 0 ? (successes / trials) * 100 : 0,
+        confidenceInterval: [low * 100, high * 100] as [number, number],
+    };
+};
+
+const compare = (control: { successes: number; trials: number }, variant: { successes: number; trials: number }) => {
+    const test = twoProportionZTest(control.successes, control.trials, variant.successes, variant.trials);
+    return {
+        difference: test.difference * 100,
+        z: test.z,
+        pValue: test.pValue,
+        significant: test.pValue < ALPHA,
+    };
+};
+
+// Completion and goal conversion per A/B variant, each compared against the
+// control with a two-proportion z-test. A session converts when it has a
+// `customEvents` row named `goalEvent`. Rates and intervals are percentages.
+// Pass `version` to count only sessions of one published version. Sessions
+// are read from the daily rollups, so this trails live traffic by up to an
+// hour; goal events of sessions not rolled up yet are left out to match.
+export const getVariantStats = query({
+    args: {
+        tourId: v.id('tours'),
+        goalEvent: v.optional(v.string()),
+        version: v.optional(v.number()),
+    },
+    handler: async (ctx: QueryCtx, args: { tourId: Id<'tours'>; goalEvent?: string; version?: number }) => {
+        await requireTourOwner(ctx, args.tourId);
+        const { goalEvent, version } = args;
+
+        const variants = await ctx.db
+            .query('tourVariants')
+            .withIndex('by_tourId', (q) => q.eq('tourId', args.tourId))
+            .collect();
+        const rows = (
+            await ctx.db
+                .query('variantDailyStats')
+                .withIndex('by_tourId_version', (q) =>
+                    version === undefined ? q.eq('tourId', args.tourId) : q.eq('tourId', args.tourId).eq('version', version)
+                )
+                .collect()
+        ).filter((row) => row.variantId !== '');
+
+        const conversions = new Map<string, number>();
+        if (goalEvent) {
+            const totals = await ctx.db
+                .query('tourStatsTotals')
+                .withIndex('by_tourId', (q) => q.eq('tourId', args.tourId))
+                .first();
+            const rolledUpTo = totals?.rolledUpTo ?? 0;
+            const events = await ctx.db
+                .query('customEvents')
+                .withIndex('by_tourId_eventName', (q) => q.eq('tourId', args.tourId).eq('eventName', goalEvent))
                 .collect();
-            const totalStarted = analytics.length;
-            const totalCompleted = analytics.filter((a) => !!a.completedAt).length;
-            const completionRate = totalStarted > 0 ? (totalCompleted / totalStarted) * 100 : 0;
-            perTour.push({
-                tourId: tour._id as Id<'tours'>,
-                name: tour.name as string,
-                completionRate,
-                stepsCount: Array.isArray(tour.steps) ? tour.steps.length : 0,
-            });
+            for (const sessionId of new Set(events.map((event) => event.sessionId))) {
+                const session = await ctx.db
+                    .query('sessions')
+                    .withIndex('by_sessionId', (q) => q.eq('sessionId', sessionId))
+                    .first();
+                if (!session?.variantId || session.tourId !== args.tourId || session.startedAt >= rolledUpTo) continue;
+                if (version !== undefined && (session.tourVersion ?? 0) !== version) continue;
+                conversions.set(session.variantId, (conversions.get(session.variantId) ?? 0) + 1);
+            }
         }
 
-        // Recent activity by day (started events)
-        const recent: Doc<'tourAnalytics'>[] = await ctx.db
-            .query('tourAnalytics')
-            .order('desc')
-            .take(50);
-        const byDay = new Map<string, number>();
-        for (const rec of recent) {
-            const d = new Date(rec.startedAt);
-            const key = `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`;
-            byDay.set(key, (byDay.get(key) || 0) + 1);
-        }
+        // Include variants that were deleted but still have sessions
+        const variantIds = [
+            ...variants.map((variant) => variant.variantId),
+            ...new Set(
+                rows
+                    .map((row) => row.variantId)
+                    .filter((id) => !variants.some((variant) => variant.variantId === id))
+            ),
+        ];
 
-        const completionsByDay = Array.from(byDay.entries())
-            .slice(0, 7)
-            .reverse()
-            .map(([date, count]) => ({ date, completions: count }));
+        const counts = variantIds.map((variantId) => {
+            const assigned = rows.filter((row) => row.variantId === variantId);
+            return {
+                variantId,
+                trials: assigned.reduce((sum, row) => sum + row.started, 0),
+                completions: assigned.reduce((sum, row) => sum + row.completed, 0),
+                conversions: conversions.get(variantId) ?? 0,
+            };
+        });
 
-        return { perTour, completionsByDay };
+        const controlId = variants.find((variant) => variant.isControl)?.variantId;
+        const control = counts.find((c) => c.variantId === controlId);
+
+        return {
+            goalEvent: goalEvent ?? null,
+            controlVariantId: controlId ?? null,
+            variants: counts.map((c) => {
+                const variant = variants.find((x) => x.variantId === c.variantId);
+                const isControl = c.variantId === controlId;
+                return {
+                    variantId: c.variantId,
+                    name: variant?.name ?? c.variantId,
+                    weight: variant?.weight ?? 0,
+                    isControl,
+                    sessions: c.trials,
+                    completion: rate(c.completions, c.trials),
+                    conversion: goalEvent ? rate(c.conversions, c.trials) : null,
+                    vsControl:
+                        control && !isControl
+                            ? {
+                                  completion: compare(
+                                      { successes: control.completions, trials: control.trials },
+                                      { successes: c.completions, trials: c.trials }
+                                  ),
+                                  conversion: goalEvent
+                                      ? compare(
+                                            { successes: control.conversions, trials: control.trials },
+                                            { successes: c.conversions, trials: c.trials }
+                                        )
+                                      : null,
+                              }
+                            : null,
+                };
+            }),
+        };
     },
 });
@@ -0,0 +1,10 @@
+// JWT identity providers trusted by `ctx.auth.getUserIdentity()`.
+// `CLERK_JWT_ISSUER_DOMAIN` is set in the Convex deployment's environment.
+export default {
+    providers: [
+        {
+            domain: process.env.CLERK_JWT_ISSUER_DOMAIN,
+            applicationID: 'convex',
+        },
+    ],
+};
@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { convexTest } from 'convex-test';
+import { createLocalJWKSet, exportJWK, generateKeyPair, jwtVerify, SignJWT } from 'jose';
+import type { JSONWebKeySet, KeyLike } from 'jose';
+import type { UserIdentity } from 'convex/server';
+import { api, internal } from './_generated/api';
+import type { Id } from './_generated/dataModel';
+import schema from './schema';
+import { modules } from './test.setup';
+
+// The owner helpers in lib/auth.ts, exercised with JWTs from a local fake
+// issuer configured the way auth.config.ts reads it.
+
+const ISSUER = 'https://issuer.test';
+
+let privateKey: KeyLike;
+let jwks: JSONWebKeySet;
+let provider: { domain?: string; applicationID: string };
+
+beforeAll(async () => {
+    vi.stubEnv('CLERK_JWT_ISSUER_DOMAIN', ISSUER);
+    provider = (await import('./auth.config')).default.providers[0];
+
+    const keys = await generateKeyPair('RS256');
+    privateKey = keys.privateKey;
+    jwks = { keys: [{ ...(await exportJWK(keys.publicKey)), kid: 'test-key', alg: 'RS256' }] };
+});
+
+afterAll(() => {
+    vi.unstubAllEnvs();
+});
+
+const signToken = (subject: string, key: KeyLike = privateKey) =>
+    new SignJWT({ email: `${subject}@example.com`, name: subject })
+        .setProtectedHeader({ alg: 'RS256', kid: 'test-key' })
+        .setIssuer(ISSUER)
+        .setAudience('convex')
+        .setSubject(subject)
+        .setIssuedAt()
+        .setExpirationTime('1h')
+        .sign(key);
+
+// Verify a token the way the deployment does and turn it into an identity
+const identityFor = async (token: string): Promise<Partial<UserIdentity>> => {
+    const { payload } = await jwtVerify(token, createLocalJWKSet(jwks), {
+        issuer: provider.domain,
+        audience: provider.applicationID,
+    });
+    return {
+        subject: payload.sub,
+        issuer: payload.iss,
+        tokenIdentifier: `${payload.iss}|${payload.sub}`,
+        email: payload.email as string,
+        name: payload.name as string,
+    };
+};
+
+// An owner with a tour, a step, a variant and a session
+const seedOwner = async (t: ReturnType<typeof convexTest>, subject: string) => {
+    const as = t.withIdentity(await identityFor(await signToken(subject)));
+    await as.mutation(api.users.upsertUser, {});
+    const user = await as.query(api.users.getCurrentUser, {});
+
+    const tourId = await as.mutation(api.tours.createTour, {
+        name: `${subject}'s tour`,
+        steps: [{ title: 'Welcome', content: 'Hello' }],
+    });
+    const [step] = await as.query(api.tours.listSteps, { tourId });
+    const variantId = await as.mutation(api.variants.createVariant, {
+        tourId,
+        variantId: 'control',
+        name: 'Control',
+        weight: 100,
+    });
+    const started = await t.mutation(internal.ingest.startSession, {
+        apiKey: user!.apiKey,
+        tourId,
+        userAgent: 'vitest',
+        pageUrl: 'https://example.com',
+    });
+    if (!started.ok) throw new Error(started.error);
+
+    return { as, tourId, stepId: step._id, variantId, sessionId: started.sessionId };
+};
+
+describe('fake issuer', () => {
+    it('rejects tokens signed with another key', async () => {
+        const { privateKey: otherKey } = await generateKeyPair('RS256');
+        await expect(identityFor(await signToken('mallory', otherKey))).rejects.toThrow();
+    });
+});
+
+describe('owner helpers', () => {
+    it('reject unauthenticated calls', async () => {
+        const t = convexTest(schema, modules);
+        const { tourId, stepId, variantId, sessionId } = await seedOwner(t, 'alice');
+
+        await expect(t.query(api.tours.listTours, {})).rejects.toThrow('Unauthorized');
+        await expect(t.query(api.tours.getTour, { id: tourId })).rejects.toThrow('Unauthorized');
+        await expect(t.mutation(api.tours.updateStep, { id: stepId, title: 'x' })).rejects.toThrow('Unauthorized');
+        await expect(t.mutation(api.variants.deleteVariant, { id: variantId })).rejects.toThrow('Unauthorized');
+        await expect(t.query(api.analytics.getSessionDetails, { sessionId })).rejects.toThrow('Unauthorized');
+    });
+
+    it("report another owner's ids as not found", async () => {
+        const t = convexTest(schema, modules);
+        const alice = await seedOwner(t, 'alice');
+        const bob = await seedOwner(t, 'bob');
+
+        await expect(bob.as.query(api.tours.getTour, { id: alice.tourId })).rejects.toThrow('Not found');
+        await expect(bob.as.mutation(api.tours.updateStep, { id: alice.stepId, title: 'x' })).rejects.toThrow(
+            'Not found'
+        );
+        await expect(bob.as.mutation(api.variants.deleteVariant, { id: alice.variantId })).rejects.toThrow(
+            'Not found'
+        );
+        await expect(bob.as.query(api.analytics.getSessionDetails, { sessionId: alice.sessionId })).rejects.toThrow(
+            'Not found'
+        );
+    });
+
+    it('let owners reach their own documents', async () => {
+        const t = convexTest(schema, modules);
+        const alice = await seedOwner(t, 'alice');
+
+        expect((await alice.as.query(api.tours.getTour, { id: alice.tourId }))._id).toBe(alice.tourId);
+        await alice.as.mutation(api.tours.updateStep, { id: alice.stepId, title: 'Renamed' });
+        const details = await alice.as.query(api.analytics.getSessionDetails, { sessionId: alice.sessionId });
+        expect(details).toBeTruthy();
+    });
+
+    it('treat deleted ids as not found', async () => {
+        const t = convexTest(schema, modules);
+        const alice = await seedOwner(t, 'alice');
+        await alice.as.mutation(api.tours.deleteTour, { id: alice.tourId });
+
+        await expect(alice.as.query(api.tours.getTour, { id: alice.tourId })).rejects.toThrow('Not found');
+        await expect(
+            alice.as.mutation(api.tours.updateStep, { id: alice.stepId as Id<'steps'>, title: 'x' })
+        ).rejects.toThrow('Not found');
+    });
+});
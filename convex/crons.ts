@@ -0,0 +1,8 @@
+import { cronJobs } from 'convex/server';
+import { internal } from './_generated/api';
+
+const crons = cronJobs();
+
+crons.hourly('roll up daily tour stats', { minuteUTC: 5 }, internal.rollups.rollupDailyStats, {});
+
+export default crons;
@@ -0,0 +1,76 @@
+import { v } from 'convex/values';
+import { paginationOptsValidator } from 'convex/server';
+import type { PaginationOptions } from 'convex/server';
+import { query } from './_generated/server';
+import type { QueryCtx } from './_generated/server';
+import type { Id } from './_generated/dataModel';
+import { requireTourOwner } from './lib/auth';
+import { readColumn, resolveColumns } from './lib/export';
+import type { ExportTable } from './lib/export';
+
+// Raw analytics for warehouse exports, one page at a time. The HTTP endpoint
+// (GET /api/export in http.ts) streams these pages as CSV or NDJSON.
+
+type ExportArgs = {
+    tourId: Id<'tours'>;
+    table: ExportTable;
+    columns?: string[];
+    from?: number;
+    to?: number;
+    paginationOpts: PaginationOptions;
+};
+
+// Documents of `table` for a tour in [from, to), oldest first. Sessions are
+// filtered on when they started, everything else on its timestamp.
+const paginateTable = async (ctx: QueryCtx, args: ExportArgs) => {
+    const from = args.from ?? 0;
+    const to = args.to ?? Number.MAX_SAFE_INTEGER;
+    switch (args.table) {
+        case 'sessions':
+            return await ctx.db
+                .query('sessions')
+                .withIndex('by_tourId_startedAt', (q) =>
+                    q.eq('tourId', args.tourId).gte('startedAt', from).lt('startedAt', to)
+                )
+                .paginate(args.paginationOpts);
+        case 'stepEvents':
+        case 'customEvents':
+        case 'feedback':
+            return await ctx.db
+                .query(args.table)
+                .withIndex('by_tourId_timestamp', (q) =>
+                    q.eq('tourId', args.tourId).gte('timestamp', from).lt('timestamp', to)
+                )
+                .paginate(args.paginationOpts);
+    }
+};
+
+// One page of a tour's analytics as rows of values in `columns` order
+export const exportPage = query({
+    args: {
+        tourId: v.id('tours'),
+        table: v.union(
+            v.literal('sessions'),
+            v.literal('stepEvents'),
+            v.literal('customEvents'),
+            v.literal('feedback')
+        ),
+        columns: v.optional(v.array(v.string())),
+        from: v.optional(v.number()),
+        to: v.optional(v.number()),
+        paginationOpts: paginationOptsValidator,
+    },
+    handler: async (ctx: QueryCtx, args: ExportArgs) => {
+        await requireTourOwner(ctx, args.tourId);
+        const resolved = resolveColumns(args.table, args.columns);
+        if (!resolved.ok) throw new Error(`Unknown columns: ${resolved.unknown.join(', ')}`);
+
+        const page = await paginateTable(ctx, args);
+        return {
+            columns: resolved.columns,
+            rows: page.page.map((doc) => resolved.columns.map((column) => readColumn(doc, column))),
+            isDone: page.isDone,
+            continueCursor: page.continueCursor,
+        };
+    },
+});
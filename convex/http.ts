@@ -0,0 +1,335 @@
+import { httpRouter } from 'convex/server';
+import { httpAction } from './_generated/server';
+import type { ActionCtx } from './_generated/server';
+import { api, internal } from './_generated/api';
+import type { Id } from './_generated/dataModel';
+import { EXPORT_TABLES, csvRow, ndjsonRow } from './lib/export';
+import type { ExportFormat, ExportTable } from './lib/export';
+import { parseAcceptLanguage } from './lib/locale';
+
+const http = httpRouter();
+
+const STEP_EVENT_TYPES = [
+    'step_viewed',
+    'step_started',
+    'step_completed',
+    'step_skipped',
+    'step_back',
+    'interaction_completed',
+    'interaction_failed',
+    'element_not_found',
+    'timeout',
+] as const;
+
+type StepEventType = (typeof STEP_EVENT_TYPES)[number];
+
+const FEEDBACK_TYPES = ['helpful', 'confusing', 'too_long', 'too_short', 'technical_issue', 'other'] as const;
+
+type FeedbackType = (typeof FEEDBACK_TYPES)[number];
+
+const MAX_EVENT_NAME_LENGTH = 100;
+
+const EXPORT_PAGE_SIZE = 500;
+
+// The widget is embedded on customer sites, so any origin may call the
+// ingestion endpoints; the API key is what authorizes the write.
+const corsHeaders = (request: Request): Record<string, string> => ({
+    'Access-Control-Allow-Origin': request.headers.get('Origin') ?? '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Api-Key',
+    'Access-Control-Max-Age': '86400',
+    Vary: 'Origin',
+});
+
+const json = (request: Request, status: number, body: unknown) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders(request) },
+    });
+
+// Keys come from `Authorization: Bearer`, `X-Api-Key`, or the body for
+// `navigator.sendBeacon`, which cannot set headers.
+const readApiKey = (request: Request, body: Record<string, unknown>) => {
+    const authorization = request.headers.get('Authorization');
+    if (authorization?.startsWith('Bearer ')) return authorization.slice(7).trim();
+    const header = request.headers.get('X-Api-Key');
+    if (header) return header.trim();
+    return typeof body.apiKey === 'string' ? body.apiKey : null;
+};
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+const optionalNumber = (value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const readMetadata = (value: unknown) => {
+    if (typeof value !== 'object' || value === null) return undefined;
+    const metadata = value as Record<string, unknown>;
+    return {
+        elementFound: typeof metadata.elementFound === 'boolean' ? metadata.elementFound : undefined,
+        interactionSuccess:
+            typeof metadata.interactionSuccess === 'boolean' ? metadata.interactionSuccess : undefined,
+        errorMessage: optionalString(metadata.errorMessage),
+        customData: metadata.customData,
+    };
+};
+
+const handleAnalytics = async (ctx: ActionCtx, request: Request, body: Record<string, unknown>) => {
+    const apiKey = readApiKey(request, body);
+    if (!apiKey || !apiKey.startsWith('pk_live_')) {
+        return json(request, 401, { error: 'Missing or malformed API key' });
+    }
+
+    const userAgent = request.headers.get('User-Agent') ?? 'unknown';
+
+    switch (body.type) {
+        case 'start': {
+            if (typeof body.tourId !== 'string') {
+                return json(request, 400, { error: 'tourId is required' });
+            }
+            const result = await ctx.runMutation(internal.ingest.startSession, {
+                apiKey,
+                tourId: body.tourId,
+                userAgent,
+                pageUrl: optionalString(body.pageUrl) ?? request.headers.get('Referer') ?? 'unknown',
+                pageTitle: optionalString(body.pageTitle),
+                referrer: optionalString(body.referrer),
+                screenResolution: optionalString(body.screenResolution),
+                totalSteps: optionalNumber(body.totalSteps),
+                variantId: optionalString(body.variantId),
+                tourVersion: optionalNumber(body.tourVersion),
+                visitorId: optionalString(body.visitorId),
+            });
+            if (!result.ok) return json(request, result.status, { error: result.error });
+            return json(request, 200, { sessionId: result.sessionId });
+        }
+        case 'step': {
+            const eventType = (body.eventType ?? 'step_completed') as StepEventType;
+            if (
+                typeof body.sessionId !== 'string' ||
+                typeof body.stepId !== 'string' ||
+                !STEP_EVENT_TYPES.includes(eventType)
+            ) {
+                return json(request, 400, { error: 'sessionId, stepId and a valid eventType are required' });
+            }
+            const result = await ctx.runMutation(internal.ingest.recordStepEvent, {
+                apiKey,
+                sessionId: body.sessionId,
+                stepId: body.stepId,
+                stepOrder: optionalNumber(body.stepOrder) ?? 0,
+                eventType,
+                timeOnStep: optionalNumber(body.timeOnStep),
+                metadata: readMetadata(body.metadata),
+            });
+            if (!result.ok) return json(request, result.status, { error: result.error });
+            return json(request, 200, { ok: true });
+        }
+        case 'custom': {
+            if (
+                typeof body.sessionId !== 'string' ||
+                typeof body.eventName !== 'string' ||
+                body.eventName.length === 0 ||
+                body.eventName.length > MAX_EVENT_NAME_LENGTH
+            ) {
+                return json(request, 400, { error: 'sessionId and an eventName are required' });
+            }
+            const result = await ctx.runMutation(internal.ingest.recordCustomEvent, {
+                apiKey,
+                sessionId: body.sessionId,
+                eventName: body.eventName,
+                eventData: body.eventData ?? null,
+            });
+            if (!result.ok) return json(request, result.status, { error: result.error });
+            return json(request, 200, { ok: true });
+        }
+        case 'complete':
+        case 'abandon': {
+            if (typeof body.sessionId !== 'string') {
+                return json(request, 400, { error: 'sessionId is required' });
+            }
+            const result = await ctx.runMutation(internal.ingest.endSession, {
+                apiKey,
+                sessionId: body.sessionId,
+                outcome: body.type === 'complete' ? 'completed' : 'abandoned',
+            });
+            if (!result.ok) return json(request, result.status, { error: result.error });
+            return json(request, 200, { ok: true });
+        }
+        case 'feedback': {
+            const feedbackType = body.feedbackType as FeedbackType | undefined;
+            if (
+                typeof body.sessionId !== 'string' ||
+                typeof body.rating !== 'number' ||
+                (feedbackType !== undefined && !FEEDBACK_TYPES.includes(feedbackType))
+            ) {
+                return json(request, 400, { error: 'sessionId, a rating and a valid feedbackType are required' });
+            }
+            const result = await ctx.runMutation(internal.ingest.submitFeedback, {
+                apiKey,
+                sessionId: body.sessionId,
+                rating: body.rating,
+                feedbackType,
+                comment: optionalString(body.comment),
+            });
+            if (!result.ok) return json(request, result.status, { error: result.error });
+            return json(request, 200, { ok: true });
+        }
+        default:
+            return json(request, 400, { error: 'Unknown event type' });
+    }
+};
+
+// Widget telemetry ingestion
+http.route({
+    path: '/api/analytics',
+    method: 'POST',
+    handler: httpAction(async (ctx, request) => {
+        let body: unknown;
+        try {
+            body = await request.json();
+        } catch {
+            return json(request, 400, { error: 'Body must be JSON' });
+        }
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+            return json(request, 400, { error: 'Body must be a JSON object' });
+        }
+
+        try {
+            return await handleAnalytics(ctx, request, body as Record<string, unknown>);
+        } catch (e) {
+            console.error('Failed to ingest analytics event', e);
+            return json(request, 500, { error: 'Failed to record event' });
+        }
+    }),
+});
+
+// Published tours for the page the widget is embedded on
+http.route({
+    path: '/api/tours',
+    method: 'GET',
+    handler: httpAction(async (ctx, request) => {
+        const params = new URL(request.url).searchParams;
+        const apiKey = readApiKey(request, { apiKey: params.get('key') ?? undefined });
+        if (!apiKey || !apiKey.startsWith('pk_live_')) {
+            return json(request, 401, { error: 'Missing or malformed API key' });
+        }
+        const pageUrl = params.get('url') ?? request.headers.get('Referer');
+        if (!pageUrl) return json(request, 400, { error: 'url is required' });
+
+        const resumeTourIds = params.get('resume')?.split(',').filter(Boolean);
+        const locale = params.get('locale') ?? parseAcceptLanguage(request.headers.get('Accept-Language'));
+
+        const result = await ctx.runQuery(internal.ingest.getPublishedTours, {
+            apiKey,
+            pageUrl,
+            resumeTourIds,
+            locale,
+            userAgent: request.headers.get('User-Agent') ?? undefined,
+            visitorId: params.get('visitor') ?? undefined,
+            browserSessionId: params.get('browserSession') ?? undefined,
+        });
+        if (!result.ok) return json(request, result.status, { error: result.error });
+        return json(request, 200, { tours: result.tours });
+    }),
+});
+
+// Epoch milliseconds from a timestamp or an ISO date
+const parseTime = (value: string | null) => {
+    if (!value) return undefined;
+    const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+};
+
+// Map errors thrown by the dashboard functions to HTTP statuses
+const errorStatus = (error: unknown) => {
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('Unauthorized')) return 403;
+    if (message.includes('Not found')) return 404;
+    return 400;
+};
+
+// Raw analytics of one tour for warehouse loads, streamed page by page.
+// Authenticated like the dashboard, with the signed-in user's JWT as
+// `Authorization: Bearer`. Query: `tourId`, `table` (sessions, stepEvents,
+// customEvents or feedback), `format` (csv or ndjson), `from`/`to` (epoch ms
+// or ISO dates; `to` is exclusive) and `columns` (comma-separated).
+http.route({
+    path: '/api/export',
+    method: 'GET',
+    handler: httpAction(async (ctx, request) => {
+        if (!(await ctx.auth.getUserIdentity())) {
+            return json(request, 401, { error: 'Sign in to export analytics' });
+        }
+
+        const params = new URL(request.url).searchParams;
+        const tourId = params.get('tourId');
+        const table = params.get('table') as ExportTable;
+        const format = (params.get('format') ?? 'csv') as ExportFormat;
+        const from = parseTime(params.get('from'));
+        const to = parseTime(params.get('to'));
+        if (!tourId || !EXPORT_TABLES.includes(table)) {
+            return json(request, 400, { error: `tourId and a table (${EXPORT_TABLES.join(', ')}) are required` });
+        }
+        if (format !== 'csv' && format !== 'ndjson') {
+            return json(request, 400, { error: 'format must be csv or ndjson' });
+        }
+        if (from === null || to === null) {
+            return json(request, 400, { error: 'from and to must be timestamps or ISO dates' });
+        }
+
+        const args = {
+            tourId: tourId as Id<'tours'>,
+            table,
+            columns: params.get('columns')?.split(',').map((column) => column.trim()).filter(Boolean),
+            from,
+            to,
+        };
+        const fetchPage = (cursor: string | null) =>
+            ctx.runQuery(api.exports.exportPage, { ...args, paginationOpts: { cursor, numItems: EXPORT_PAGE_SIZE } });
+
+        // Load the first page up front so bad input gets a proper status
+        let page: Awaited<ReturnType<typeof fetchPage>>;
+        try {
+            page = await fetchPage(null);
+        } catch (e) {
+            return json(request, errorStatus(e), { error: e instanceof Error ? e.message : 'Export failed' });
+        }
+
+        const encoder = new TextEncoder();
+        const { columns } = page;
+        const encode = (rows: unknown[][]) =>
+            encoder.encode(
+                rows.map((row) => (format === 'csv' ? csvRow(row) : ndjsonRow(columns, row))).join('')
+            );
+
+        let next: typeof page | null = page;
+        const body = new ReadableStream<Uint8Array>({
+            start(controller) {
+                if (format === 'csv') controller.enqueue(encoder.encode(csvRow(columns)));
+            },
+            async pull(controller) {
+                if (!next) return controller.close();
+                const current = next;
+                controller.enqueue(encode(current.rows));
+                next = current.isDone ? null : await fetchPage(current.continueCursor);
+            },
+        });
+
+        return new Response(body, {
+            status: 200,
+            headers: {
+                'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+                'Content-Disposition': `attachment; filename="${table}-${tourId}.${format}"`,
+                ...corsHeaders(request),
+            },
+        });
+    }),
+});
+
+// CORS preflight for the embedded widget and browser-side exports
+const preflight = httpAction(async (_ctx, request) => new Response(null, { status: 204, headers: corsHeaders(request) }));
+
+http.route({ path: '/api/analytics', method: 'OPTIONS', handler: preflight });
+http.route({ path: '/api/tours', method: 'OPTIONS', handler: preflight });
+http.route({ path: '/api/export', method: 'OPTIONS', handler: preflight });
+
+export default http;
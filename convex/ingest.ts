@@ -0,0 +1,474 @@
+import { v } from 'convex/values';
+import { internalMutation, internalQuery } from './_generated/server';
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import type { Doc } from './_generated/dataModel';
+import { nanoid } from 'nanoid';
+import { evaluateAudience } from './lib/audience';
+import { assignVariant } from './lib/experiments';
+import { localizeStep } from './lib/locale';
+import { buildStepDocument } from './lib/tourModel';
+import { parseUserAgent } from './lib/userAgent';
+import { matchesTourUrl } from './lib/urlMatch';
+import { getPublishedVariants, getVersion, materializeVersion } from './lib/versions';
+import { enqueueWebhook, sessionPayload } from './lib/webhooks';
+import { feedbackTypeValidator } from './validators';
+import type { FeedbackType, VariantSnapshot } from './validators';
+
+// Result shape shared by every ingestion function so the HTTP layer can map
+// failures onto status codes without parsing error messages.
+type IngestFailure = { ok: false; status: number; error: string };
+
+const fail = (status: number, error: string): IngestFailure => ({
+    ok: false,
+    status,
+    error,
+});
+
+// Resolve the owner of a public API key
+const getOwnerByApiKey = async (ctx: QueryCtx | MutationCtx, apiKey: string) => {
+    return await ctx.db
+        .query('users')
+        .withIndex('by_apiKey', (q) => q.eq('apiKey', apiKey))
+        .first();
+};
+
+// Load a tour and make sure it belongs to the API key's owner
+const resolveTour = async (
+    ctx: MutationCtx,
+    apiKey: string,
+    rawTourId: string
+): Promise<{ ok: true; tour: Doc<'tours'> } | IngestFailure> => {
+    const owner = await getOwnerByApiKey(ctx, apiKey);
+    if (!owner) return fail(401, 'Invalid API key');
+
+    const tourId = ctx.db.normalizeId('tours', rawTourId);
+    const tour = tourId ? await ctx.db.get(tourId) : null;
+    if (!tour) return fail(404, 'Tour not found');
+    if (tour.userId !== owner._id) return fail(403, 'Tour does not belong to this API key');
+
+    return { ok: true, tour };
+};
+
+// Load an in-flight session and make sure it belongs to the API key's owner
+const resolveSession = async (
+    ctx: MutationCtx,
+    apiKey: string,
+    sessionId: string
+): Promise<{ ok: true; session: Doc<'sessions'>; tour: Doc<'tours'> } | IngestFailure> => {
+    const owner = await getOwnerByApiKey(ctx, apiKey);
+    if (!owner) return fail(401, 'Invalid API key');
+
+    const session = await ctx.db
+        .query('sessions')
+        .withIndex('by_sessionId', (q) => q.eq('sessionId', sessionId))
+        .first();
+    if (!session) return fail(404, 'Session not found');
+
+    const tour = await ctx.db.get(session.tourId);
+    if (!tour || tour.userId !== owner._id) {
+        return fail(403, 'Session does not belong to this API key');
+    }
+
+    return { ok: true, session, tour };
+};
+
+type WidgetStepSource = Omit<Doc<'steps'>, '_id' | '_creationTime'>;
+
+// The subset of a published tour and its steps the widget needs to render
+// it, with an A/B variant's overrides applied and step text in the visitor's locale
+// where a translation exists
+const toWidgetTour = (
+    tour: Doc<'tours'>,
+    steps: WidgetStepSource[],
+    locale?: string,
+    variant?: VariantSnapshot | null
+) => ({
+    id: tour._id,
+    name: tour.name,
+    theme: tour.theme,
+    primaryColor: tour.primaryColor,
+    position: tour.position,
+    autoStart: tour.autoStart,
+    showProgress: tour.showProgress,
+    allowSkip: tour.allowSkip,
+    allowRestart: tour.allowRestart,
+    enableAvatar: tour.enableAvatar,
+    avatarType: tour.avatarType,
+    avatarModelUrl: tour.avatarModelUrl,
+    enableWebGL: tour.enableWebGL,
+    triggerEvent: tour.triggerEvent,
+    triggerDelay: tour.triggerDelay,
+    completionRedirect: tour.completionRedirect,
+    feedbackPrompt: tour.feedbackPrompt,
+    ...variant?.settings,
+    // Re-checked by the widget against the visitor's traits and history
+    audience: tour.audience,
+    variantId: variant?.variantId,
+    // Published version; lets the widget discard resume state saved against
+    // an older one and is recorded with the session
+    version: tour.publishedVersion,
+    steps: steps.map((step) => ({
+        id: step.stepId,
+        order: step.order,
+        ...localizeStep(step, locale, tour.defaultLocale),
+        contentType: step.contentType,
+        pageUrl: step.pageUrl,
+        targetElement: step.targetElement,
+        highlightElement: step.highlightElement,
+        highlightPadding: step.highlightPadding,
+        position: step.position,
+        offset: step.offset,
+        avatarConfig: step.avatarConfig,
+        imageUrl: step.imageUrl,
+        videoUrl: step.videoUrl,
+        requireInteraction: step.requireInteraction,
+        interactionElement: step.interactionElement,
+        showBackButton: step.showBackButton,
+        customCSS: step.customCSS,
+        waitForElement: step.waitForElement,
+        waitTimeout: step.waitTimeout,
+    })),
+});
+
+// Active, published tours of the API key's owner that target the page and
+// whose audience could include the visitor, plus any tours the visitor is
+// part-way through on another page. Tours are served as last published, not
+// as currently drafted.
+export const getPublishedTours = internalQuery({
+    args: {
+        apiKey: v.string(),
+        pageUrl: v.string(),
+        resumeTourIds: v.optional(v.array(v.string())),
+        locale: v.optional(v.string()),
+        userAgent: v.optional(v.string()),
+        visitorId: v.optional(v.string()),
+        browserSessionId: v.optional(v.string()),
+    },
+    handler: async (
+        ctx: QueryCtx,
+        args: {
+            apiKey: string;
+            pageUrl: string;
+            resumeTourIds?: string[];
+            locale?: string;
+            userAgent?: string;
+            visitorId?: string;
+            browserSessionId?: string;
+        }
+    ) => {
+        const owner = await getOwnerByApiKey(ctx, args.apiKey);
+        if (!owner) return fail(401, 'Invalid API key');
+
+        const tours = await ctx.db
+            .query('tours')
+            .withIndex('by_userId', (q) => q.eq('userId', owner._id))
+            .collect();
+
+        // Only what the request reveals; rules on anything else stay undecided
+        const audienceContext = {
+            now: Date.now(),
+            locale: args.locale,
+            ...(args.userAgent ? parseUserAgent(args.userAgent) : {}),
+        };
+
+        const resuming = new Set(args.resumeTourIds ?? []);
+        const result = [];
+        for (const draft of tours) {
+            if (!draft.isActive || !draft.isPublished || draft.publishedVersion === undefined) continue;
+            const published = await getVersion(ctx, draft._id, draft.publishedVersion);
+            if (!published) continue;
+
+            const { tour, steps: publishedSteps } = materializeVersion(draft, published);
+            const matches =
+                resuming.has(tour._id) ||
+                (matchesTourUrl(tour, args.pageUrl) && evaluateAudience(tour.audience, audienceContext) !== false);
+            if (!matches) continue;
+
+            // Variants as published with the version. Visitors without an id
+            // for the tour's A/B unit see the tour as is.
+            const variants = await getPublishedVariants(ctx, published);
+            const unitId = tour.variantAssignment === 'session' ? args.browserSessionId : args.visitorId;
+            const variant = unitId ? assignVariant(tour._id, unitId, variants) : null;
+
+            const steps = variant?.steps
+                ? variant.steps.map((input, i) => buildStepDocument(tour._id, i + 1, input, published.publishedAt))
+                : publishedSteps;
+            result.push(toWidgetTour(tour, steps, args.locale, variant));
+        }
+
+        return { ok: true as const, tours: result };
+    },
+});
+
+// Record a widget starting a tour
+export const startSession = internalMutation({
+    args: {
+        apiKey: v.string(),
+        tourId: v.string(),
+        userAgent: v.string(),
+        pageUrl: v.string(),
+        pageTitle: v.optional(v.string()),
+        referrer: v.optional(v.string()),
+        screenResolution: v.optional(v.string()),
+        totalSteps: v.optional(v.number()),
+        variantId: v.optional(v.string()),
+        tourVersion: v.optional(v.number()),
+        visitorId: v.optional(v.string()),
+    },
+    handler: async (
+        ctx: MutationCtx,
+        args: {
+            apiKey: string;
+            tourId: string;
+            userAgent: string;
+            pageUrl: string;
+            pageTitle?: string;
+            referrer?: string;
+            screenResolution?: string;
+            totalSteps?: number;
+            variantId?: string;
+            tourVersion?: number;
+            visitorId?: string;
+        }
+    ) => {
+        const resolved = await resolveTour(ctx, args.apiKey, args.tourId);
+        if (!resolved.ok) return resolved;
+        const { tour } = resolved;
+
+        // Widgets loaded before a publish report the version they were served
+        const reported = args.tourVersion !== undefined ? await getVersion(ctx, tour._id, args.tourVersion) : null;
+        const served =
+            reported ??
+            (tour.publishedVersion !== undefined ? await getVersion(ctx, tour._id, tour.publishedVersion) : null);
+        const tourVersion = served?.version ?? tour.publishedVersion;
+
+        // Only record variants of that version, so stats aren't split by bad input
+        const variants = served ? await getPublishedVariants(ctx, served) : [];
+        const variant = variants.find((candidate) => candidate.variantId === args.variantId) ?? null;
+
+        const sessionId = `ses_${nanoid(24)}`;
+        const id = await ctx.db.insert('sessions', {
+            tourId: tour._id,
+            sessionId,
+            startedAt: Date.now(),
+            userAgent: args.userAgent,
+            ...parseUserAgent(args.userAgent),
+            screenResolution: args.screenResolution ?? 'unknown',
+            totalSteps: args.totalSteps ?? tour.totalSteps,
+            stepsCompleted: 0,
+            stepsSkipped: 0,
+            currentStep: 0,
+            status: 'in_progress',
+            referrer: args.referrer,
+            pageUrl: args.pageUrl,
+            pageTitle: args.pageTitle,
+            variantId: variant?.variantId,
+            tourVersion,
+            visitorId: args.visitorId,
+        });
+
+        const session = await ctx.db.get(id);
+        if (session) await enqueueWebhook(ctx, tour.userId, 'tour.started', sessionPayload(session));
+
+        return { ok: true as const, sessionId };
+    },
+});
+
+// Record a step event for an in-flight session
+export const recordStepEvent = internalMutation({
+    args: {
+        apiKey: v.string(),
+        sessionId: v.string(),
+        stepId: v.string(),
+        stepOrder: v.number(),
+        eventType: v.union(
+            v.literal('step_viewed'),
+            v.literal('step_started'),
+            v.literal('step_completed'),
+            v.literal('step_skipped'),
+            v.literal('step_back'),
+            v.literal('interaction_completed'),
+            v.literal('interaction_failed'),
+            v.literal('element_not_found'),
+            v.literal('timeout')
+        ),
+        timeOnStep: v.optional(v.number()),
+        metadata: v.optional(
+            v.object({
+                elementFound: v.optional(v.boolean()),
+                interactionSuccess: v.optional(v.boolean()),
+                errorMessage: v.optional(v.string()),
+                customData: v.optional(v.any()),
+            })
+        ),
+    },
+    handler: async (
+        ctx: MutationCtx,
+        args: {
+            apiKey: string;
+            sessionId: string;
+            stepId: string;
+            stepOrder: number;
+            eventType: Doc<'stepEvents'>['eventType'];
+            timeOnStep?: number;
+            metadata?: Doc<'stepEvents'>['metadata'];
+        }
+    ) => {
+        const resolved = await resolveSession(ctx, args.apiKey, args.sessionId);
+        if (!resolved.ok) return resolved;
+        const { session, tour } = resolved;
+
+        const timestamp = Date.now();
+        await ctx.db.insert('stepEvents', {
+            tourId: session.tourId,
+            sessionId: session.sessionId,
+            stepId: args.stepId,
+            stepOrder: args.stepOrder,
+            eventType: args.eventType,
+            timestamp,
+            timeOnStep: args.timeOnStep,
+            metadata: args.metadata,
+            tourVersion: session.tourVersion,
+        });
+
+        if (args.eventType === 'step_completed') {
+            await ctx.db.patch(session._id, {
+                stepsCompleted: session.stepsCompleted + 1,
+                currentStep: args.stepOrder,
+            });
+            await enqueueWebhook(ctx, tour.userId, 'step.completed', {
+                tourId: session.tourId,
+                sessionId: session.sessionId,
+                tourVersion: session.tourVersion ?? null,
+                stepId: args.stepId,
+                stepOrder: args.stepOrder,
+                timeOnStep: args.timeOnStep ?? null,
+                timestamp,
+            });
+        } else if (args.eventType === 'step_skipped') {
+            await ctx.db.patch(session._id, {
+                stepsSkipped: session.stepsSkipped + 1,
+                currentStep: args.stepOrder,
+            });
+        }
+
+        return { ok: true as const };
+    },
+});
+
+// Record a custom event, e.g. media playback, for an in-flight session
+export const recordCustomEvent = internalMutation({
+    args: {
+        apiKey: v.string(),
+        sessionId: v.string(),
+        eventName: v.string(),
+        eventData: v.any(),
+    },
+    handler: async (
+        ctx: MutationCtx,
+        args: { apiKey: string; sessionId: string; eventName: string; eventData: unknown }
+    ) => {
+        const resolved = await resolveSession(ctx, args.apiKey, args.sessionId);
+        if (!resolved.ok) return resolved;
+        const { session } = resolved;
+
+        await ctx.db.insert('customEvents', {
+            tourId: session.tourId,
+            sessionId: session.sessionId,
+            eventName: args.eventName,
+            eventData: args.eventData ?? null,
+            timestamp: Date.now(),
+        });
+
+        return { ok: true as const };
+    },
+});
+
+const MAX_COMMENT_LENGTH = 2000;
+
+// Record a visitor's rating of a tour, once per session
+export const submitFeedback = internalMutation({
+    args: {
+        apiKey: v.string(),
+        sessionId: v.string(),
+        rating: v.number(),
+        feedbackType: v.optional(feedbackTypeValidator),
+        comment: v.optional(v.string()),
+    },
+    handler: async (
+        ctx: MutationCtx,
+        args: { apiKey: string; sessionId: string; rating: number; feedbackType?: FeedbackType; comment?: string }
+    ) => {
+        if (!Number.isInteger(args.rating) || args.rating < 1 || args.rating > 5) {
+            return fail(400, 'rating must be a whole number from 1 to 5');
+        }
+
+        const resolved = await resolveSession(ctx, args.apiKey, args.sessionId);
+        if (!resolved.ok) return resolved;
+        const { session, tour } = resolved;
+
+        // Ignore resubmissions, e.g. a double click
+        const existing = await ctx.db
+            .query('feedback')
+            .withIndex('by_sessionId', (q) => q.eq('sessionId', session.sessionId))
+            .first();
+        if (existing) return { ok: true as const };
+
+        const feedback = {
+            tourId: session.tourId,
+            sessionId: session.sessionId,
+            rating: args.rating,
+            feedbackType: args.feedbackType ?? 'other',
+            comment: args.comment?.trim().slice(0, MAX_COMMENT_LENGTH) || undefined,
+            tourVersion: session.tourVersion,
+            timestamp: Date.now(),
+        };
+        await ctx.db.insert('feedback', feedback);
+        await enqueueWebhook(ctx, tour.userId, 'feedback.submitted', {
+            ...feedback,
+            tourVersion: feedback.tourVersion ?? null,
+            comment: feedback.comment ?? null,
+        });
+
+        return { ok: true as const };
+    },
+});
+
+// Record a session reaching a terminal state
+export const endSession = internalMutation({
+    args: {
+        apiKey: v.string(),
+        sessionId: v.string(),
+        outcome: v.union(v.literal('completed'), v.literal('abandoned')),
+    },
+    handler: async (
+        ctx: MutationCtx,
+        args: { apiKey: string; sessionId: string; outcome: 'completed' | 'abandoned' }
+    ) => {
+        const resolved = await resolveSession(ctx, args.apiKey, args.sessionId);
+        if (!resolved.ok) return resolved;
+        const { session, tour } = resolved;
+
+        // Ignore duplicate terminal events, e.g. a retried beacon
+        if (session.status !== 'in_progress') return { ok: true as const };
+
+        const now = Date.now();
+        await ctx.db.patch(session._id, {
+            status: args.outcome,
+            duration: now - session.startedAt,
+            ...(args.outcome === 'completed' ? { completedAt: now } : { abandonedAt: now }),
+        });
+
+        const ended = await ctx.db.get(session._id);
+        if (ended) {
+            await enqueueWebhook(
+                ctx,
+                tour.userId,
+                args.outcome === 'completed' ? 'tour.completed' : 'tour.abandoned',
+                sessionPayload(ended)
+            );
+        }
+
+        return { ok: true as const };
+    },
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateAudience, evaluateCondition } from './audience';
+import type { AudienceCondition, AudienceContext } from './audience';
+
+const NOW = Date.parse('2026-03-10T12:00:00Z');
+
+// What the backend knows about a request, without the visitor's own context
+const REQUEST: AudienceContext = { now: NOW, device: 'mobile', browser: 'Safari', locale: 'fr-CA' };
+
+// What the widget knows once it has the visitor's traits and history
+const VISITOR: AudienceContext = {
+    ...REQUEST,
+    visit: { first: false, count: 3 },
+    tour: { completed: false, dismissed: true },
+    visitor: { plan: 'Pro', seats: '12', signedUpAt: '2026-03-05T00:00:00Z' },
+};
+
+const condition = (field: string, operator: AudienceCondition['operator'], value?: AudienceCondition['value']) => ({
+    field,
+    operator,
+    value,
+});
+
+describe('evaluateCondition', () => {
+    it('compares known fields case-insensitively', () => {
+        expect(evaluateCondition(condition('device', 'equals', 'Mobile'), REQUEST)).toBe(true);
+        expect(evaluateCondition(condition('browser', 'in', ['chrome', 'safari']), REQUEST)).toBe(true);
+        expect(evaluateCondition(condition('locale', 'starts_with', 'en'), REQUEST)).toBe(false);
+    });
+
+    it('is unknown for fields the context leaves out', () => {
+        expect(evaluateCondition(condition('os', 'equals', 'ios'), REQUEST)).toBeNull();
+        expect(evaluateCondition(condition('visit.first', 'equals', true), REQUEST)).toBeNull();
+        expect(evaluateCondition(condition('visitor.plan', 'exists'), REQUEST)).toBeNull();
+    });
+
+    it('is unknown for fields it has never heard of', () => {
+        expect(evaluateCondition(condition('plan', 'equals', 'pro'), VISITOR)).toBeNull();
+        expect(evaluateCondition(condition('visit.last', 'exists'), VISITOR)).toBeNull();
+        expect(evaluateCondition(condition('tour.started', 'equals', true), VISITOR)).toBeNull();
+    });
+
+    it('treats a trait missing from supplied traits as known to be absent', () => {
+        expect(evaluateCondition(condition('visitor.role', 'exists'), VISITOR)).toBe(false);
+        expect(evaluateCondition(condition('visitor.role', 'not_exists'), VISITOR)).toBe(true);
+        expect(evaluateCondition(condition('visitor.role', 'equals', 'admin'), VISITOR)).toBe(false);
+        expect(evaluateCondition(condition('visitor.role', 'not_equals', 'admin'), VISITOR)).toBe(true);
+        expect(evaluateCondition(condition('visitor.role', 'gt', 1), VISITOR)).toBe(false);
+    });
+
+    it('compares numbers and dates given as strings', () => {
+        expect(evaluateCondition(condition('visitor.seats', 'gte', 10), VISITOR)).toBe(true);
+        expect(evaluateCondition(condition('visit.count', 'lt', '3'), VISITOR)).toBe(false);
+        expect(evaluateCondition(condition('visitor.signedUpAt', 'within_days', 7), VISITOR)).toBe(true);
+        expect(evaluateCondition(condition('visitor.signedUpAt', 'before', '2026-03-01'), VISITOR)).toBe(false);
+        expect(evaluateCondition(condition('visitor.plan', 'gt', 1), VISITOR)).toBe(false);
+    });
+});
+
+describe('evaluateAudience', () => {
+    it('lets everyone in without rules', () => {
+        expect(evaluateAudience(undefined, REQUEST)).toBe(true);
+        expect(evaluateAudience({ match: 'all', rules: [] }, REQUEST)).toBe(true);
+    });
+
+    it('only rules a tour out when an unknown answer could not change that', () => {
+        const mobileAndPro = {
+            match: 'all' as const,
+            rules: [condition('device', 'equals', 'mobile'), condition('visitor.plan', 'equals', 'pro')],
+        };
+        expect(evaluateAudience(mobileAndPro, REQUEST)).toBeNull();
+        expect(evaluateAudience(mobileAndPro, VISITOR)).toBe(true);
+
+        const desktopAndPro = {
+            ...mobileAndPro,
+            rules: [condition('device', 'equals', 'desktop'), mobileAndPro.rules[1]],
+        };
+        expect(evaluateAudience(desktopAndPro, REQUEST)).toBe(false);
+        expect(evaluateAudience({ ...desktopAndPro, match: 'any' }, REQUEST)).toBeNull();
+        expect(evaluateAudience({ ...mobileAndPro, match: 'any' }, REQUEST)).toBe(true);
+    });
+
+    it('evaluates nested groups, with an empty group matching', () => {
+        const rule = {
+            match: 'all' as const,
+            rules: [
+                {
+                    match: 'any' as const,
+                    conditions: [
+                        condition('tour.completed', 'equals', true),
+                        condition('tour.dismissed', 'equals', true),
+                    ],
+                },
+                { match: 'all' as const, conditions: [] },
+            ],
+        };
+        expect(evaluateAudience(rule, VISITOR)).toBe(true);
+        expect(evaluateAudience(rule, REQUEST)).toBeNull();
+    });
+});
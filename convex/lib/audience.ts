@@ -0,0 +1,183 @@
+// Audience rules deciding which visitors see a tour. The engine is pure and
+// dependency-free: the backend runs it when selecting tours with what it
+// knows from the request (device, browser, os, locale) and the widget runs it
+// again with the full visitor context.
+//
+// Evaluation is three-valued: a condition on a field missing from the
+// context is `null` (unknown) rather than false, so a partial context only
+// rules a tour out when the answer can't change. AND is false if any part is
+// false, OR is true if any part is true; otherwise unknown wins over the rest.
+
+export type AudienceValue = string | number | boolean | null;
+
+export type AudienceOperator =
+    | 'equals'
+    | 'not_equals'
+    | 'in'
+    | 'not_in'
+    | 'contains'
+    | 'not_contains'
+    | 'starts_with'
+    | 'gt'
+    | 'gte'
+    | 'lt'
+    | 'lte'
+    | 'before'
+    | 'after'
+    | 'within_days'
+    | 'exists'
+    | 'not_exists';
+
+// `field` is one of `device`, `browser`, `os`, `locale`, `visit.first`,
+// `visit.count`, `tour.completed`, `tour.dismissed` or `visitor.<trait>`
+export interface AudienceCondition {
+    field: string;
+    operator: AudienceOperator;
+    value?: AudienceValue | AudienceValue[];
+}
+
+export interface AudienceGroup {
+    match: 'all' | 'any';
+    conditions: AudienceCondition[];
+}
+
+export interface AudienceRule {
+    match: 'all' | 'any';
+    rules: Array<AudienceCondition | AudienceGroup>;
+}
+
+// What's known about the visitor; leave out whatever the caller can't know
+export interface AudienceContext {
+    now: number; // reference time for date operators
+    device?: string;
+    browser?: string;
+    os?: string;
+    locale?: string;
+    visit?: { first: boolean; count: number };
+    tour?: { completed: boolean; dismissed: boolean };
+    visitor?: Record<string, AudienceValue | undefined>;
+}
+
+export type AudienceVerdict = boolean | null;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const all = (verdicts: AudienceVerdict[]): AudienceVerdict =>
+    verdicts.includes(false) ? false : verdicts.includes(null) ? null : true;
+
+const any = (verdicts: AudienceVerdict[]): AudienceVerdict =>
+    verdicts.includes(true) ? true : verdicts.includes(null) ? null : false;
+
+const combine = (match: 'all' | 'any', verdicts: AudienceVerdict[]) =>
+    match === 'all' ? all(verdicts) : any(verdicts);
+
+// Value of `field`, or `known: false` when the context doesn't cover it
+const resolveField = (ctx: AudienceContext, field: string): { known: boolean; value?: AudienceValue } => {
+    const [scope, key] = field.split(/\.(.*)/s);
+    switch (scope) {
+        case 'device':
+        case 'browser':
+        case 'os':
+        case 'locale':
+            return { known: ctx[scope] !== undefined, value: ctx[scope] };
+        case 'visit':
+            if (!ctx.visit || (key !== 'first' && key !== 'count')) return { known: false };
+            return { known: true, value: ctx.visit[key] };
+        case 'tour':
+            if (!ctx.tour || (key !== 'completed' && key !== 'dismissed')) return { known: false };
+            return { known: true, value: ctx.tour[key] };
+        case 'visitor':
+            // With visitor traits supplied, a missing trait is known to be missing
+            if (!ctx.visitor || !key) return { known: false };
+            return { known: true, value: ctx.visitor[key] ?? undefined };
+        default:
+            return { known: false };
+    }
+};
+
+const normalize = (value: AudienceValue | undefined) => (typeof value === 'string' ? value.toLowerCase() : value);
+
+const toNumber = (value: AudienceValue | undefined) => {
+    const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+// Epoch milliseconds from a timestamp or a date string
+const toTime = (value: AudienceValue | undefined) => {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+};
+
+const compareNumbers = (a: AudienceValue | undefined, b: AudienceValue | undefined, test: (x: number, y: number) => boolean) => {
+    const x = toNumber(a);
+    const y = toNumber(b);
+    return x !== null && y !== null && test(x, y);
+};
+
+export const evaluateCondition = (condition: AudienceCondition, ctx: AudienceContext): AudienceVerdict => {
+    const { known, value } = resolveField(ctx, condition.field);
+    if (!known) return null;
+
+    const present = value !== undefined && value !== null && value !== '';
+    const expected = Array.isArray(condition.value) ? condition.value : [condition.value ?? null];
+    const target = expected[0];
+    const actual = normalize(value);
+
+    switch (condition.operator) {
+        case 'exists':
+            return present;
+        case 'not_exists':
+            return !present;
+        case 'equals':
+            return present && actual === normalize(target);
+        case 'not_equals':
+            return !present || actual !== normalize(target);
+        case 'in':
+            return present && expected.some((option) => normalize(option) === actual);
+        case 'not_in':
+            return !present || !expected.some((option) => normalize(option) === actual);
+        case 'contains':
+            return present && String(actual).includes(String(normalize(target)));
+        case 'not_contains':
+            return !present || !String(actual).includes(String(normalize(target)));
+        case 'starts_with':
+            return present && String(actual).startsWith(String(normalize(target)));
+        case 'gt':
+            return compareNumbers(value, target, (x, y) => x > y);
+        case 'gte':
+            return compareNumbers(value, target, (x, y) => x >= y);
+        case 'lt':
+            return compareNumbers(value, target, (x, y) => x < y);
+        case 'lte':
+            return compareNumbers(value, target, (x, y) => x <= y);
+        case 'before': {
+            const [time, limit] = [toTime(value), toTime(target)];
+            return time !== null && limit !== null && time < limit;
+        }
+        case 'after': {
+            const [time, limit] = [toTime(value), toTime(target)];
+            return time !== null && limit !== null && time > limit;
+        }
+        case 'within_days': {
+            const [time, days] = [toTime(value), toNumber(target)];
+            return time !== null && days !== null && time <= ctx.now && ctx.now - time <= days * DAY_MS;
+        }
+    }
+};
+
+// Whether a visitor matches a tour's audience; no rule means everyone does
+export const evaluateAudience = (rule: AudienceRule | undefined, ctx: AudienceContext): AudienceVerdict => {
+    if (!rule || rule.rules.length === 0) return true;
+    return combine(
+        rule.match,
+        rule.rules.map((entry) =>
+            'conditions' in entry
+                ? entry.conditions.length === 0
+                    ? true
+                    : combine(entry.match, entry.conditions.map((c) => evaluateCondition(c, ctx)))
+                : evaluateCondition(entry, ctx)
+        )
+    );
+};
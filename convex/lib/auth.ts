@@ -0,0 +1,71 @@
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import type { Id } from '../_generated/dataModel';
+
+// Authorization helpers shared by every dashboard-facing function. Identities
+// come from the JWT provider configured in auth.config.ts; `subject` is the
+// provider's user id, stored on our side as `users.authId`.
+//
+// Another owner's documents are reported as 'Not found', the same as ids that
+// don't exist, so ids can't be probed for existence.
+
+type Ctx = QueryCtx | MutationCtx;
+
+// The signed-in user's document, or null when signed out or not yet synced
+export const getViewer = async (ctx: Ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return null;
+
+    return await ctx.db
+        .query('users')
+        .withIndex('by_authId', (q) => q.eq('authId', identity.subject))
+        .first();
+};
+
+export const requireViewer = async (ctx: Ctx) => {
+    const viewer = await getViewer(ctx);
+    if (!viewer) throw new Error('Unauthorized');
+    return viewer;
+};
+
+// Load a tour the signed-in user owns
+export const requireTourOwner = async (ctx: Ctx, tourId: Id<'tours'>) => {
+    const viewer = await requireViewer(ctx);
+    const tour = await ctx.db.get(tourId);
+    if (!tour || tour.userId !== viewer._id) throw new Error('Not found');
+    return { viewer, tour };
+};
+
+// Load a step whose tour the signed-in user owns
+export const requireStepOwner = async (ctx: Ctx, stepId: Id<'steps'>) => {
+    const step = await ctx.db.get(stepId);
+    if (!step) throw new Error('Not found');
+    const { viewer, tour } = await requireTourOwner(ctx, step.tourId);
+    return { viewer, tour, step };
+};
+
+// Load an A/B variant whose tour the signed-in user owns
+export const requireVariantOwner = async (ctx: Ctx, variantId: Id<'tourVariants'>) => {
+    const variant = await ctx.db.get(variantId);
+    if (!variant) throw new Error('Not found');
+    const { viewer, tour } = await requireTourOwner(ctx, variant.tourId);
+    return { viewer, tour, variant };
+};
+
+// Load a webhook endpoint the signed-in user owns
+export const requireWebhookEndpointOwner = async (ctx: Ctx, endpointId: Id<'webhookEndpoints'>) => {
+    const viewer = await requireViewer(ctx);
+    const endpoint = await ctx.db.get(endpointId);
+    if (!endpoint || endpoint.userId !== viewer._id) throw new Error('Not found');
+    return { viewer, endpoint };
+};
+
+// Load a session whose tour the signed-in user owns
+export const requireSessionOwner = async (ctx: Ctx, sessionId: string) => {
+    const session = await ctx.db
+        .query('sessions')
+        .withIndex('by_sessionId', (q) => q.eq('sessionId', sessionId))
+        .first();
+    if (!session) throw new Error('Not found');
+    const { viewer, tour } = await requireTourOwner(ctx, session.tourId);
+    return { viewer, tour, session };
+};
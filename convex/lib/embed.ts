@@ -0,0 +1,53 @@
+import type { MutationCtx } from '../_generated/server';
+import type { Doc, Id } from '../_generated/dataModel';
+
+// Copy-paste `<script>` snippets that embed the widget for one tour. The
+// widget reads the same `data-` attributes that `TourWidget.init()` accepts.
+//
+// `WIDGET_SCRIPT_URL` (the hosted widget bundle) can be set in the Convex
+// deployment's environment; `CONVEX_SITE_URL` is provided by Convex and is
+// where the widget's HTTP endpoints live.
+
+// The standalone bundle, served from the site's own root when no CDN URL is
+// configured; `tour-widget-avatar.iife.js` must sit next to it
+const DEFAULT_SCRIPT_URL = '/tour-widget.iife.js';
+
+export interface EmbedOptions {
+    locale?: string; // BCP 47 tag; the widget defaults to the browser's language
+    autoStart?: boolean; // false leaves starting the tour to `TourWidget.start()`
+}
+
+const escapeAttribute = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const buildEmbedCode = (apiKey: string, tourId: Id<'tours'>, options: EmbedOptions = {}) => {
+    const attributes: Array<[string, string | undefined]> = [
+        ['src', process.env.WIDGET_SCRIPT_URL ?? DEFAULT_SCRIPT_URL],
+        ['data-api-key', apiKey],
+        ['data-api-url', process.env.CONVEX_SITE_URL],
+        ['data-tour-id', tourId],
+        ['data-locale', options.locale],
+        ['data-auto-start', options.autoStart === false ? 'false' : undefined],
+    ];
+    const lines = attributes
+        .filter((entry): entry is [string, string] => !!entry[1])
+        .map(([name, value]) => `    ${name}="${escapeAttribute(value)}"`);
+    return ['<script', ...lines, '    defer', '></script>'].join('\n');
+};
+
+// Store the default snippet on the tour, e.g. once it's created
+export const refreshEmbedCode = async (ctx: MutationCtx, tour: Doc<'tours'>, apiKey: string) => {
+    const embedCode = buildEmbedCode(apiKey, tour._id);
+    if (tour.embedCode !== embedCode) await ctx.db.patch(tour._id, { embedCode });
+};
+
+// Re-issue the snippets of every tour of an owner, e.g. after an API key change
+export const refreshOwnerEmbedCodes = async (ctx: MutationCtx, owner: Doc<'users'>) => {
+    const tours = await ctx.db
+        .query('tours')
+        .withIndex('by_userId', (q) => q.eq('userId', owner._id))
+        .collect();
+    for (const tour of tours) {
+        await refreshEmbedCode(ctx, tour, owner.apiKey);
+    }
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { assignVariant } from './experiments';
+
+const VARIANTS = [
+    { variantId: 'control', weight: 50 },
+    { variantId: 'short', weight: 30 },
+    { variantId: 'long', weight: 20 },
+];
+
+const UNITS = Array.from({ length: 2000 }, (_, i) => `visitor_${i}`);
+
+const assignAll = (variants: typeof VARIANTS, tourId = 'tour_1') =>
+    UNITS.map((unitId) => assignVariant(tourId, unitId, variants)?.variantId);
+
+describe('assignVariant', () => {
+    it('keeps each visitor in the same variant, whatever order the variants come in', () => {
+        expect(assignAll([...VARIANTS].reverse())).toEqual(assignAll(VARIANTS));
+    });
+
+    it('stays the same across releases', () => {
+        // Changing the hash would move visitors mid-experiment
+        const assigned = assignAll(VARIANTS);
+        expect(assigned.slice(8, 12)).toEqual(['control', 'control', 'short', 'short']);
+        const counts = VARIANTS.map(({ variantId }) => assigned.filter((id) => id === variantId).length);
+        expect(counts).toEqual([946, 661, 393]);
+    });
+
+    it('splits traffic in proportion to the weights', () => {
+        const assigned = assignAll(VARIANTS);
+        for (const { variantId, weight } of VARIANTS) {
+            const share = assigned.filter((id) => id === variantId).length / UNITS.length;
+            expect(share).toBeCloseTo(weight / 100, 1);
+        }
+    });
+
+    it('moves no one when a variant without traffic is added', () => {
+        expect(assignAll([...VARIANTS, { variantId: 'draft', weight: 0 }])).toEqual(assignAll(VARIANTS));
+    });
+
+    it('splits each tour independently', () => {
+        expect(assignAll(VARIANTS, 'tour_2')).not.toEqual(assignAll(VARIANTS));
+    });
+
+    it('assigns nothing when no variant takes traffic', () => {
+        expect(assignVariant('tour_1', 'visitor_0', [{ variantId: 'draft', weight: 0 }])).toBeNull();
+        expect(assignVariant('tour_1', 'visitor_0', [])).toBeNull();
+    });
+});
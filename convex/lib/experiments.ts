@@ -0,0 +1,34 @@
+// Stable weighted assignment of visitors to tour variants. The same unit id
+// always lands in the same variant as long as the variants and their weights
+// don't change; different tours split independently.
+
+// 32-bit FNV-1a
+const hash = (input: string) => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        h ^= input.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+// Pick a variant for `unitId` (a visitor or browser session id) in proportion
+// to the variants' weights; null when no variant takes traffic
+export const assignVariant = <V extends { variantId: string; weight: number }>(
+    tourId: string,
+    unitId: string,
+    variants: V[]
+): V | null => {
+    const live = variants
+        .filter((variant) => variant.weight > 0)
+        .sort((a, b) => a.variantId.localeCompare(b.variantId));
+    const total = live.reduce((sum, variant) => sum + variant.weight, 0);
+    if (total === 0) return null;
+
+    let point = (hash(`${tourId}:${unitId}`) / 2 ** 32) * total;
+    for (const variant of live) {
+        point -= variant.weight;
+        if (point < 0) return variant;
+    }
+    return live[live.length - 1];
+};
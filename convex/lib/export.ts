@@ -0,0 +1,90 @@
+// Column layouts and row encoding for analytics exports. Columns always come
+// out in the order listed here, whatever order they were requested in, so
+// files from different runs line up. Nested fields use dotted names.
+
+export const EXPORT_TABLES = ['sessions', 'stepEvents', 'customEvents', 'feedback'] as const;
+
+export type ExportTable = (typeof EXPORT_TABLES)[number];
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+export const EXPORT_COLUMNS: Record<ExportTable, readonly string[]> = {
+    sessions: [
+        'sessionId',
+        'tourId',
+        'tourVersion',
+        'variantId',
+        'userId',
+        'visitorId',
+        'status',
+        'startedAt',
+        'completedAt',
+        'abandonedAt',
+        'duration',
+        'totalSteps',
+        'stepsCompleted',
+        'stepsSkipped',
+        'currentStep',
+        'browser',
+        'device',
+        'os',
+        'screenResolution',
+        'userAgent',
+        'ipAddress',
+        'country',
+        'city',
+        'pageUrl',
+        'pageTitle',
+        'referrer',
+    ],
+    stepEvents: [
+        'sessionId',
+        'tourId',
+        'tourVersion',
+        'stepId',
+        'stepOrder',
+        'eventType',
+        'timestamp',
+        'timeOnStep',
+        'metadata.elementFound',
+        'metadata.interactionSuccess',
+        'metadata.errorMessage',
+        'metadata.customData',
+    ],
+    customEvents: ['sessionId', 'tourId', 'eventName', 'eventData', 'timestamp'],
+    feedback: ['sessionId', 'tourId', 'tourVersion', 'rating', 'feedbackType', 'comment', 'timestamp'],
+};
+
+// Requested columns in canonical order, or every column when none are given.
+// Returns the unknown names instead if there are any.
+export const resolveColumns = (table: ExportTable, requested?: string[]) => {
+    const known = EXPORT_COLUMNS[table];
+    if (!requested || requested.length === 0) return { ok: true as const, columns: [...known] };
+
+    const unknown = requested.filter((column) => !known.includes(column));
+    if (unknown.length > 0) return { ok: false as const, unknown };
+    return { ok: true as const, columns: known.filter((column) => requested.includes(column)) };
+};
+
+// Value of a dotted column, null when missing
+export const readColumn = (doc: Record<string, unknown>, column: string): unknown => {
+    let value: unknown = doc;
+    for (const key of column.split('.')) {
+        if (typeof value !== 'object' || value === null) return null;
+        value = (value as Record<string, unknown>)[key];
+    }
+    return value ?? null;
+};
+
+// RFC 4180 field: quoted when it holds a comma, quote or line break, with
+// quotes doubled. Objects are written as JSON.
+const csvField = (value: unknown) => {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const csvRow = (values: unknown[]) => `${values.map(csvField).join(',')}\r\n`;
+
+export const ndjsonRow = (columns: string[], values: unknown[]) =>
+    `${JSON.stringify(Object.fromEntries(columns.map((column, i) => [column, values[i]])))}\n`;
@@ -0,0 +1,48 @@
+import type { Doc } from '../_generated/dataModel';
+
+// Locale fallback for translated step content: each field tries `fr-CA`,
+// then `fr`, then the step's own (default locale) field.
+
+// Lowercased BCP 47 tags from most to least specific, e.g. ['fr-ca', 'fr']
+export const localeChain = (locale: string) => {
+    const parts = locale.trim().replace(/_/g, '-').toLowerCase().split('-').filter(Boolean);
+    const chain: string[] = [];
+    for (let i = parts.length; i > 0; i--) chain.push(parts.slice(0, i).join('-'));
+    return chain;
+};
+
+// First language of an Accept-Language header, ignoring q-values
+export const parseAcceptLanguage = (header: string | null) => {
+    const first = header?.split(',')[0]?.split(';')[0]?.trim();
+    return first && first !== '*' ? first : undefined;
+};
+
+type LocalizedField = 'title' | 'content' | 'buttonText' | 'imageAlt';
+
+// Step text for `locale`, plus the locale its content is actually in
+export const localizeStep = (
+    step: Pick<Doc<'steps'>, LocalizedField | 'translations'>,
+    locale: string | undefined,
+    defaultLocale: string | undefined
+) => {
+    const translations = step.translations ?? {};
+    const byTag = new Map(Object.keys(translations).map((key) => [key.toLowerCase(), key]));
+    const keys = (locale ? localeChain(locale) : []).flatMap((tag) => byTag.get(tag) ?? []);
+
+    // The most specific translation that sets `field`, and its locale
+    const resolve = <F extends LocalizedField>(field: F) => {
+        const key = keys.find((k) => translations[k][field] !== undefined);
+        return key
+            ? { locale: key, value: translations[key][field] as Doc<'steps'>[F] }
+            : { locale: defaultLocale, value: step[field] };
+    };
+
+    const content = resolve('content');
+    return {
+        locale: content.locale,
+        title: resolve('title').value,
+        content: content.value,
+        buttonText: resolve('buttonText').value,
+        imageAlt: resolve('imageAlt').value,
+    };
+};
@@ -0,0 +1,202 @@
+import type { Doc } from '../_generated/dataModel';
+
+// Official templates offered to every customer; `seedOfficialTemplates` in
+// templates.ts writes them, matching existing ones by name. Steps describe
+// their target instead of naming a selector, since every site differs.
+
+type OfficialTemplate = Pick<
+    Doc<'templates'>,
+    'name' | 'description' | 'tourType' | 'category' | 'defaultSteps' | 'defaultSettings'
+>;
+
+export const OFFICIAL_TEMPLATES: OfficialTemplate[] = [
+    {
+        name: 'Store welcome',
+        description: 'Greets first-time shoppers and points out search, categories and the cart.',
+        tourType: 'ecommerce',
+        category: 'onboarding',
+        defaultSettings: { theme: 'light', primaryColor: '#f97316', autoStart: true, showProgress: true, allowSkip: true },
+        defaultSteps: [
+            {
+                title: 'Welcome to our store',
+                content: 'Take a quick look around. It only takes a few seconds.',
+                position: 'center',
+            },
+            {
+                title: 'Find anything',
+                content: 'Search by product name, brand or category.',
+                targetDescription: 'Site search box',
+                position: 'bottom',
+            },
+            {
+                title: 'Browse by category',
+                content: 'Our departments are all here when you would rather browse.',
+                targetDescription: 'Main category navigation',
+                position: 'bottom',
+            },
+            {
+                title: 'Your cart',
+                content: 'Items you add wait here until you are ready to check out.',
+                targetDescription: 'Cart icon in the header',
+                position: 'left',
+            },
+        ],
+    },
+    {
+        name: 'Checkout walkthrough',
+        description: 'Reassures shoppers through shipping, payment and order review.',
+        tourType: 'ecommerce',
+        category: 'checkout',
+        defaultSettings: { theme: 'light', primaryColor: '#16a34a', autoStart: true, showProgress: true, allowSkip: true },
+        defaultSteps: [
+            {
+                title: 'Shipping details',
+                content: 'Tell us where to send your order. We will save it for next time.',
+                targetDescription: 'Shipping address form',
+                position: 'right',
+            },
+            {
+                title: 'Choose delivery',
+                content: 'Pick the delivery speed that suits you; prices update instantly.',
+                targetDescription: 'Delivery options',
+                position: 'right',
+            },
+            {
+                title: 'Secure payment',
+                content: 'Payments are encrypted end to end. We never store your full card number.',
+                targetDescription: 'Payment form',
+                position: 'right',
+            },
+            {
+                title: 'Review and place your order',
+                content: 'Check everything once more, then place your order.',
+                targetDescription: 'Place order button',
+                position: 'top',
+            },
+        ],
+    },
+    {
+        name: 'Product onboarding',
+        description: 'Introduces a SaaS dashboard and guides new users to their first key action.',
+        tourType: 'saas',
+        category: 'onboarding',
+        defaultSettings: { theme: 'auto', primaryColor: '#4f46e5', autoStart: true, showProgress: true, allowSkip: true },
+        defaultSteps: [
+            {
+                title: 'Welcome aboard',
+                content: 'Let us show you the essentials so you can get going.',
+                position: 'center',
+            },
+            {
+                title: 'Your dashboard',
+                content: 'Everything important at a glance. It fills in as you use the product.',
+                targetDescription: 'Dashboard overview',
+                position: 'bottom',
+            },
+            {
+                title: 'Create your first project',
+                content: 'Start here. Projects keep your work and your team together.',
+                targetDescription: 'New project button',
+                position: 'bottom',
+                requireInteraction: true,
+            },
+            {
+                title: 'Invite your team',
+                content: 'Work is better together. Invite teammates whenever you are ready.',
+                targetDescription: 'Invite members link',
+                position: 'left',
+            },
+            {
+                title: 'Need help?',
+                content: 'Guides and support are always one click away.',
+                targetDescription: 'Help menu',
+                position: 'left',
+            },
+        ],
+    },
+    {
+        name: 'New feature announcement',
+        description: 'Highlights a newly shipped feature to existing users.',
+        tourType: 'saas',
+        category: 'feature-discovery',
+        defaultSettings: { theme: 'auto', primaryColor: '#0ea5e9', autoStart: true, showProgress: false, allowSkip: true },
+        defaultSteps: [
+            {
+                title: 'Something new is here',
+                content: 'We just shipped a feature we think you will love.',
+                position: 'center',
+            },
+            {
+                title: 'Where to find it',
+                content: 'Open it from here whenever you need it.',
+                targetDescription: 'Entry point of the new feature',
+                position: 'auto',
+            },
+            {
+                title: 'Give it a try',
+                content: 'Try it now, or come back later. It is not going anywhere.',
+                targetDescription: 'Primary action of the new feature',
+                position: 'auto',
+            },
+        ],
+    },
+    {
+        name: 'Course introduction',
+        description: 'Orients learners in a course: lessons, progress and getting help.',
+        tourType: 'educational',
+        category: 'onboarding',
+        defaultSettings: { theme: 'light', primaryColor: '#7c3aed', autoStart: true, showProgress: true, allowSkip: true },
+        defaultSteps: [
+            {
+                title: 'Welcome to the course',
+                content: 'Here is how to get the most out of it.',
+                position: 'center',
+            },
+            {
+                title: 'Lessons',
+                content: 'Work through the lessons in order, or jump to any topic.',
+                targetDescription: 'Lesson list',
+                position: 'right',
+            },
+            {
+                title: 'Track your progress',
+                content: 'Completed lessons are checked off so you always know where you left off.',
+                targetDescription: 'Progress bar',
+                position: 'bottom',
+            },
+            {
+                title: 'Ask questions',
+                content: 'Stuck? Ask in the discussion. Instructors and classmates can help.',
+                targetDescription: 'Discussion or Q&A tab',
+                position: 'left',
+            },
+        ],
+    },
+    {
+        name: 'Quiz and assignments',
+        description: 'Explains how quizzes and assignments are submitted and graded.',
+        tourType: 'educational',
+        category: 'assessment',
+        defaultSettings: { theme: 'light', primaryColor: '#db2777', autoStart: true, showProgress: true, allowSkip: true },
+        defaultSteps: [
+            {
+                title: 'Test what you learned',
+                content: 'Each module ends with a short quiz. You can retake it as often as you like.',
+                targetDescription: 'Quiz section',
+                position: 'right',
+            },
+            {
+                title: 'Submit assignments',
+                content: 'Upload your work here before the due date shown next to each assignment.',
+                targetDescription: 'Assignment upload area',
+                position: 'bottom',
+            },
+            {
+                title: 'See your grades',
+                content: 'Scores and instructor feedback appear here once grading is done.',
+                targetDescription: 'Grades page link',
+                position: 'left',
+            },
+        ],
+    },
+];
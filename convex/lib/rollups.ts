@@ -0,0 +1,243 @@
+import type { MutationCtx } from '../_generated/server';
+import type { Doc, Id } from '../_generated/dataModel';
+
+// Daily analytics rollups. Sessions count toward the UTC day they started
+// on, step views toward the day they happened. Each tour-day is recomputed
+// from the raw tables, and the change is applied to the tour's totals so the
+// two never drift apart. Per-step and per-variant counts are kept alongside,
+// so analytics never read raw sessions or events.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type StatCounts = Pick<Doc<'tourDailyStats'>, 'started' | 'completed' | 'abandoned' | 'stepViews' | 'completedDuration'>;
+
+const COUNT_KEYS = ['started', 'completed', 'abandoned', 'stepViews', 'completedDuration'] as const;
+
+export const emptyCounts = (): StatCounts => ({
+    started: 0,
+    completed: 0,
+    abandoned: 0,
+    stepViews: 0,
+    completedDuration: 0,
+});
+
+const pickCounts = (doc: StatCounts): StatCounts =>
+    Object.fromEntries(COUNT_KEYS.map((key) => [key, doc[key]])) as StatCounts;
+
+// "YYYY-MM-DD" of the UTC day containing `timestamp`
+export const utcDay = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+// The `count` UTC days up to and including today, oldest first
+export const lastUtcDays = (now: number, count: number) =>
+    Array.from({ length: count }, (_, i) => utcDay(now - (count - 1 - i) * DAY_MS));
+
+// Events that mean a visitor reached a step
+export const STEP_REACHED_EVENTS = new Set<Doc<'stepEvents'>['eventType']>([
+    'step_viewed',
+    'step_started',
+    'step_completed',
+    'step_skipped',
+]);
+
+export type StepCount = Pick<Doc<'stepDailyStats'>, 'version' | 'stepId' | 'reached' | 'completed'>;
+export type VariantCount = Pick<Doc<'variantDailyStats'>, 'version' | 'variantId' | 'started' | 'completed'>;
+
+// Everything counted for one tour-day: the totals and their per-step and
+// per-variant breakdown
+export interface DayTally {
+    counts: StatCounts;
+    steps: StepCount[];
+    variants: VariantCount[];
+}
+
+export const emptyDayTally = (): DayTally => ({ counts: emptyCounts(), steps: [], variants: [] });
+
+export type RollupTable = 'sessions' | 'stepEvents';
+
+// Count one page of a tour-day's sessions, or of its step views, onto
+// `tally`. Busy days take several pages, so the tally of earlier pages is
+// passed back in. Each session's own step events are read with it, so `read`
+// can exceed the page size.
+export const countDayPage = async (
+    ctx: MutationCtx,
+    tourId: Id<'tours'>,
+    day: string,
+    table: RollupTable,
+    paginationOpts: { cursor: string | null; numItems: number },
+    tally: DayTally
+) => {
+    const start = Date.parse(`${day}T00:00:00Z`);
+    const end = start + DAY_MS;
+    const counts = { ...tally.counts };
+
+    if (table === 'sessions') {
+        const page = await ctx.db
+            .query('sessions')
+            .withIndex('by_tourId_startedAt', (q) => q.eq('tourId', tourId).gte('startedAt', start).lt('startedAt', end))
+            .paginate(paginationOpts);
+        // Keyed by version first, which can't contain the separator
+        const steps = new Map(tally.steps.map((row) => [`${row.version}:${row.stepId}`, { ...row }]));
+        const variants = new Map(tally.variants.map((row) => [`${row.version}:${row.variantId}`, { ...row }]));
+        let read = page.page.length;
+
+        for (const session of page.page) {
+            const completed = session.status === 'completed';
+            counts.started++;
+            if (completed) {
+                counts.completed++;
+                counts.completedDuration += session.duration ?? 0;
+            } else if (session.status === 'abandoned') {
+                counts.abandoned++;
+            }
+
+            const version = session.tourVersion ?? 0;
+            const variantId = session.variantId ?? '';
+            const variant = variants.get(`${version}:${variantId}`) ?? { version, variantId, started: 0, completed: 0 };
+            variant.started++;
+            if (completed) variant.completed++;
+            variants.set(`${version}:${variantId}`, variant);
+
+            const events = await ctx.db
+                .query('stepEvents')
+                .withIndex('by_sessionId', (q) => q.eq('sessionId', session.sessionId))
+                .collect();
+            read += events.length;
+            const reached = new Set(events.filter((e) => STEP_REACHED_EVENTS.has(e.eventType)).map((e) => e.stepId));
+            const finished = new Set(events.filter((e) => e.eventType === 'step_completed').map((e) => e.stepId));
+            for (const stepId of reached) {
+                const step = steps.get(`${version}:${stepId}`) ?? { version, stepId, reached: 0, completed: 0 };
+                step.reached++;
+                if (finished.has(stepId)) step.completed++;
+                steps.set(`${version}:${stepId}`, step);
+            }
+        }
+
+        return {
+            tally: { counts, steps: [...steps.values()], variants: [...variants.values()] },
+            read,
+            isDone: page.isDone,
+            continueCursor: page.continueCursor,
+        };
+    }
+
+    const page = await ctx.db
+        .query('stepEvents')
+        .withIndex('by_tourId_eventType_timestamp', (q) =>
+            q.eq('tourId', tourId).eq('eventType', 'step_viewed').gte('timestamp', start).lt('timestamp', end)
+        )
+        .paginate(paginationOpts);
+    counts.stepViews += page.page.length;
+    return {
+        tally: { ...tally, counts },
+        read: page.page.length,
+        isDone: page.isDone,
+        continueCursor: page.continueCursor,
+    };
+};
+
+// Replace a tour-day's per-step rows with `rows`, writing only what changed
+const saveStepRows = async (ctx: MutationCtx, tour: Doc<'tours'>, day: string, rows: StepCount[], now: number) => {
+    const existing = await ctx.db
+        .query('stepDailyStats')
+        .withIndex('by_tourId_day', (q) => q.eq('tourId', tour._id).eq('day', day))
+        .collect();
+    const stale = new Map(existing.map((row) => [`${row.version}:${row.stepId}`, row]));
+    for (const row of rows) {
+        const current = stale.get(`${row.version}:${row.stepId}`);
+        stale.delete(`${row.version}:${row.stepId}`);
+        if (!current) {
+            await ctx.db.insert('stepDailyStats', { tourId: tour._id, userId: tour.userId, day, ...row, updatedAt: now });
+        } else if (current.reached !== row.reached || current.completed !== row.completed) {
+            await ctx.db.patch(current._id, { reached: row.reached, completed: row.completed, updatedAt: now });
+        }
+    }
+    for (const row of stale.values()) await ctx.db.delete(row._id);
+};
+
+// Replace a tour-day's per-variant rows with `rows`, writing only what changed
+const saveVariantRows = async (
+    ctx: MutationCtx,
+    tour: Doc<'tours'>,
+    day: string,
+    rows: VariantCount[],
+    now: number
+) => {
+    const existing = await ctx.db
+        .query('variantDailyStats')
+        .withIndex('by_tourId_day', (q) => q.eq('tourId', tour._id).eq('day', day))
+        .collect();
+    const stale = new Map(existing.map((row) => [`${row.version}:${row.variantId}`, row]));
+    for (const row of rows) {
+        const current = stale.get(`${row.version}:${row.variantId}`);
+        stale.delete(`${row.version}:${row.variantId}`);
+        if (!current) {
+            await ctx.db.insert('variantDailyStats', { tourId: tour._id, userId: tour.userId, day, ...row, updatedAt: now });
+        } else if (current.started !== row.started || current.completed !== row.completed) {
+            await ctx.db.patch(current._id, { started: row.started, completed: row.completed, updatedAt: now });
+        }
+    }
+    for (const row of stale.values()) await ctx.db.delete(row._id);
+};
+
+// Store one tour's recomputed stats for `day`
+export const saveTourDay = async (ctx: MutationCtx, tour: Doc<'tours'>, day: string, tally: DayTally) => {
+    const { counts } = tally;
+    const now = Date.now();
+    await saveStepRows(ctx, tour, day, tally.steps, now);
+    await saveVariantRows(ctx, tour, day, tally.variants, now);
+
+    const existing = await ctx.db
+        .query('tourDailyStats')
+        .withIndex('by_tourId_day', (q) => q.eq('tourId', tour._id).eq('day', day))
+        .first();
+
+    const previous = existing ?? emptyCounts();
+    if (COUNT_KEYS.every((key) => previous[key] === counts[key])) return;
+
+    if (existing) {
+        await ctx.db.patch(existing._id, { ...counts, updatedAt: now });
+    } else {
+        await ctx.db.insert('tourDailyStats', { tourId: tour._id, userId: tour.userId, day, ...counts, updatedAt: now });
+    }
+
+    const totals = await ctx.db
+        .query('tourStatsTotals')
+        .withIndex('by_tourId', (q) => q.eq('tourId', tour._id))
+        .first();
+    const next = totals ?? { tourId: tour._id, userId: tour.userId, ...emptyCounts() };
+    for (const key of COUNT_KEYS) next[key] += counts[key] - previous[key];
+
+    if (totals) {
+        await ctx.db.patch(totals._id, { ...pickCounts(next), updatedAt: now });
+    } else {
+        await ctx.db.insert('tourStatsTotals', { tourId: tour._id, userId: tour.userId, ...pickCounts(next), updatedAt: now });
+    }
+};
+
+// Record that the tour's sessions started before `at` are rolled up
+export const markRolledUp = async (ctx: MutationCtx, tour: Doc<'tours'>, at: number) => {
+    const totals = await ctx.db
+        .query('tourStatsTotals')
+        .withIndex('by_tourId', (q) => q.eq('tourId', tour._id))
+        .first();
+    if (!totals) {
+        await ctx.db.insert('tourStatsTotals', {
+            tourId: tour._id,
+            userId: tour.userId,
+            ...emptyCounts(),
+            rolledUpTo: at,
+            updatedAt: Date.now(),
+        });
+    } else if ((totals.rolledUpTo ?? 0) < at) {
+        await ctx.db.patch(totals._id, { rolledUpTo: at });
+    }
+};
+
+// Add up the counts of several rollup rows
+export const sumCounts = (rows: StatCounts[]) => {
+    const sum = emptyCounts();
+    for (const row of rows) {
+        for (const key of COUNT_KEYS) sum[key] += row[key];
+    }
+    return sum;
+};
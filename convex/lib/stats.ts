@@ -0,0 +1,42 @@
+// Small statistics helpers for comparing conversion rates and summarizing durations.
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26 erf approximation)
+export const normalCdf = (z: number) => {
+    const x = Math.abs(z) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * x);
+    const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    const erf = 1 - poly * Math.exp(-x * x);
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+// 95% Wilson score interval for `successes` out of `trials`, as fractions
+export const wilsonInterval = (successes: number, trials: number, z = 1.96): [number, number] => {
+    if (trials === 0) return [0, 0];
+    const p = successes / trials;
+    const denominator = 1 + (z * z) / trials;
+    const center = (p + (z * z) / (2 * trials)) / denominator;
+    const margin = (z * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials))) / denominator;
+    return [Math.max(0, center - margin), Math.min(1, center + margin)];
+};
+
+// Two-sided two-proportion z-test of B against A
+export const twoProportionZTest = (successesA: number, trialsA: number, successesB: number, trialsB: number) => {
+    if (trialsA === 0 || trialsB === 0) return { difference: 0, z: 0, pValue: 1 };
+    const pA = successesA / trialsA;
+    const pB = successesB / trialsB;
+    const pooled = (successesA + successesB) / (trialsA + trialsB);
+    const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB));
+    if (standardError === 0) return { difference: pB - pA, z: 0, pValue: 1 };
+    const z = (pB - pA) / standardError;
+    return { difference: pB - pA, z, pValue: 2 * (1 - normalCdf(Math.abs(z))) };
+};
+
+// `p`th percentile (0-100) of `values` by linear interpolation, or null when empty
+export const percentile = (values: number[], p: number) => {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
@@ -0,0 +1,159 @@
+import { nanoid } from 'nanoid';
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import type { Doc, Id } from '../_generated/dataModel';
+import type { StepInput, TourSettings } from '../validators';
+import { refreshEmbedCode } from './embed';
+
+// Rough reading time used for `tours.estimatedDuration`
+const SECONDS_PER_STEP = 15;
+
+type TourFields = Omit<Doc<'tours'>, '_id' | '_creationTime'>;
+type StepFields = Omit<Doc<'steps'>, '_id' | '_creationTime'>;
+
+// Fill in every required tour column, falling back to defaults for any
+// setting the caller left out.
+export const buildTourDocument = (
+    userId: Id<'users'>,
+    name: string,
+    settings: TourSettings,
+    now: number
+): TourFields => ({
+    userId,
+    name,
+    description: settings.description ?? '',
+    tourType: settings.tourType ?? 'custom',
+    targetUrl: settings.targetUrl ?? '',
+    targetUrlPattern: settings.targetUrlPattern,
+    isActive: settings.isActive ?? false,
+    isPublished: false,
+    theme: settings.theme ?? 'light',
+    primaryColor: settings.primaryColor ?? '#4f46e5',
+    position: settings.position ?? 'bottom',
+    autoStart: settings.autoStart ?? true,
+    showProgress: settings.showProgress ?? true,
+    allowSkip: settings.allowSkip ?? true,
+    allowRestart: settings.allowRestart ?? true,
+    enableAvatar: settings.enableAvatar ?? true,
+    avatarType: settings.avatarType,
+    avatarModelUrl: settings.avatarModelUrl,
+    enableWebGL: settings.enableWebGL,
+    triggerEvent: settings.triggerEvent,
+    triggerDelay: settings.triggerDelay ?? 0,
+    completionRedirect: settings.completionRedirect,
+    defaultLocale: settings.defaultLocale,
+    audience: settings.audience,
+    variantAssignment: settings.variantAssignment,
+    feedbackPrompt: settings.feedbackPrompt,
+    embedCode: '',
+    totalSteps: 0,
+    estimatedDuration: 0,
+    createdAt: now,
+    updatedAt: now,
+});
+
+// Id for a new step that doesn't set one. Not derived from its position, as
+// inserts and deletes shift positions onto ids that are still in use.
+export const newStepId = () => `step-${nanoid(10)}`;
+
+// Throw if another step of the tour, other than `except`, already has `stepId`;
+// analytics and the `by_stepId` index treat it as unique per tour
+export const assertStepIdAvailable = async (
+    ctx: MutationCtx,
+    tourId: Id<'tours'>,
+    stepId: string,
+    except?: Id<'steps'>
+) => {
+    const existing = await ctx.db
+        .query('steps')
+        .withIndex('by_stepId', (q) => q.eq('tourId', tourId).eq('stepId', stepId))
+        .first();
+    if (existing && existing._id !== except) {
+        throw new Error(`Step id "${stepId}" is already used in this tour`);
+    }
+};
+
+// Fill in every required step column, falling back to defaults for any
+// option the caller left out. The positional step id only suits steps rebuilt
+// from a snapshot or variant; new draft steps get `newStepId()`.
+export const buildStepDocument = (
+    tourId: Id<'tours'>,
+    order: number,
+    input: StepInput,
+    now: number
+): StepFields => ({
+    tourId,
+    stepId: input.stepId ?? `step-${order}`,
+    order,
+    title: input.title,
+    content: input.content,
+    contentType: input.contentType ?? 'text',
+    translations: input.translations,
+    pageUrl: input.pageUrl,
+    targetElement: input.targetElement,
+    targetDescription: input.targetDescription,
+    highlightElement: input.highlightElement ?? !!input.targetElement,
+    highlightPadding: input.highlightPadding ?? 8,
+    position: input.position ?? 'auto',
+    offset: input.offset ?? { x: 0, y: 0 },
+    avatarConfig: input.avatarConfig,
+    imageUrl: input.imageUrl,
+    imageAlt: input.imageAlt,
+    videoUrl: input.videoUrl,
+    requireInteraction: input.requireInteraction ?? false,
+    interactionElement: input.interactionElement,
+    buttonText: input.buttonText,
+    showBackButton: input.showBackButton ?? true,
+    customCSS: input.customCSS,
+    customJS: input.customJS,
+    waitForElement: input.waitForElement,
+    waitTimeout: input.waitTimeout ?? 5000,
+    createdAt: now,
+    updatedAt: now,
+});
+
+// Insert a tour with its steps, in order
+export const insertTourWithSteps = async (
+    ctx: MutationCtx,
+    userId: Id<'users'>,
+    name: string,
+    settings: TourSettings,
+    steps: StepInput[]
+) => {
+    const stepIds = steps.map((step) => step.stepId ?? newStepId());
+    if (new Set(stepIds).size !== stepIds.length) throw new Error('Step ids must be unique within a tour');
+
+    const now = Date.now();
+    const tourId = await ctx.db.insert('tours', buildTourDocument(userId, name, settings, now));
+    for (let i = 0; i < steps.length; i++) {
+        await ctx.db.insert('steps', buildStepDocument(tourId, i + 1, { ...steps[i], stepId: stepIds[i] }, now));
+    }
+    await syncStepOrder(ctx, tourId);
+
+    const [tour, owner] = await Promise.all([ctx.db.get(tourId), ctx.db.get(userId)]);
+    if (tour && owner) await refreshEmbedCode(ctx, tour, owner.apiKey);
+    return tourId;
+};
+
+// Steps of a tour in display order
+export const getOrderedSteps = async (ctx: QueryCtx | MutationCtx, tourId: Id<'tours'>) => {
+    return await ctx.db
+        .query('steps')
+        .withIndex('by_tourId_order', (q) => q.eq('tourId', tourId))
+        .collect();
+};
+
+// Renumber a tour's steps 1..n and keep the denormalized counters on the tour in sync
+export const syncStepOrder = async (ctx: MutationCtx, tourId: Id<'tours'>) => {
+    const steps = await getOrderedSteps(ctx, tourId);
+    for (let i = 0; i < steps.length; i++) {
+        if (steps[i].order !== i + 1) {
+            await ctx.db.patch(steps[i]._id, { order: i + 1 });
+        }
+    }
+
+    await ctx.db.patch(tourId, {
+        totalSteps: steps.length,
+        estimatedDuration: steps.length * SECONDS_PER_STEP,
+        updatedAt: Date.now(),
+    });
+};
@@ -0,0 +1,30 @@
+import type { Doc } from '../_generated/dataModel';
+
+// Compare URLs by origin and path, ignoring query, hash and a trailing slash
+const normalizeUrl = (raw: string) => {
+    try {
+        const url = new URL(raw);
+        return `${url.origin}${url.pathname.replace(/\/+$/, '')}`.toLowerCase();
+    } catch {
+        return raw.replace(/[?#].*$/, '').replace(/\/+$/, '').toLowerCase();
+    }
+};
+
+// Whether a tour should run on the given page. `targetUrlPattern` is a
+// regular expression tested against the full URL and takes precedence over
+// `targetUrl`; a tour with neither runs everywhere.
+export const matchesTourUrl = (
+    tour: Pick<Doc<'tours'>, 'targetUrl' | 'targetUrlPattern'>,
+    pageUrl: string
+) => {
+    if (tour.targetUrlPattern) {
+        try {
+            return new RegExp(tour.targetUrlPattern).test(pageUrl);
+        } catch {
+            // An invalid pattern never matches rather than matching everything
+            return false;
+        }
+    }
+    if (!tour.targetUrl) return true;
+    return normalizeUrl(tour.targetUrl) === normalizeUrl(pageUrl);
+};
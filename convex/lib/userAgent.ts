@@ -0,0 +1,25 @@
+// Coarse user agent classification for the session browser/device/os columns
+// and audience rules. Dependency-free so the widget can share it.
+export const parseUserAgent = (userAgent: string) => {
+    const ua = userAgent.toLowerCase();
+
+    let browser = 'other';
+    if (ua.includes('edg/')) browser = 'edge';
+    else if (ua.includes('opr/') || ua.includes('opera')) browser = 'opera';
+    else if (ua.includes('firefox/')) browser = 'firefox';
+    else if (ua.includes('chrome/') || ua.includes('crios/')) browser = 'chrome';
+    else if (ua.includes('safari/')) browser = 'safari';
+
+    let os = 'other';
+    if (ua.includes('windows')) os = 'windows';
+    else if (ua.includes('iphone') || ua.includes('ipad')) os = 'ios';
+    else if (ua.includes('android')) os = 'android';
+    else if (ua.includes('mac os')) os = 'macos';
+    else if (ua.includes('linux')) os = 'linux';
+
+    let device = 'desktop';
+    if (ua.includes('ipad') || ua.includes('tablet')) device = 'tablet';
+    else if (ua.includes('mobi') || ua.includes('iphone') || ua.includes('android')) device = 'mobile';
+
+    return { browser, device, os };
+};
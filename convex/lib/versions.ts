@@ -0,0 +1,151 @@
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import type { Doc, Id } from '../_generated/dataModel';
+import { stepFields, tourSettingsFields } from '../validators';
+import type { StepInput, TourSettings, TourSnapshot, VariantSnapshot } from '../validators';
+import { buildStepDocument, getOrderedSteps } from './tourModel';
+
+// Draft/publish model: the tours and steps tables are the editable draft and
+// each publish freezes them into an immutable `tourVersions` snapshot.
+
+// `isActive` stays live so a tour can be switched off without publishing
+const SETTINGS_KEYS = Object.keys(tourSettingsFields).filter((key) => key !== 'isActive') as (keyof TourSettings)[];
+const STEP_KEYS = Object.keys(stepFields) as (keyof StepInput)[];
+const VARIANT_KEYS = ['variantId', 'name', 'weight', 'isControl', 'settings', 'steps'] as const;
+
+const pick = <T>(doc: Record<string, unknown>, keys: readonly string[]) =>
+    Object.fromEntries(keys.filter((key) => doc[key] !== undefined).map((key) => [key, doc[key]])) as T;
+
+// Freeze the current draft of a tour, with its A/B variants
+export const snapshotDraft = async (ctx: QueryCtx | MutationCtx, tour: Doc<'tours'>): Promise<TourSnapshot> => {
+    const steps = await getOrderedSteps(ctx, tour._id);
+    const variants = await ctx.db
+        .query('tourVariants')
+        .withIndex('by_tourId', (q) => q.eq('tourId', tour._id))
+        .collect();
+    return {
+        name: tour.name,
+        settings: pick<TourSettings>(tour, SETTINGS_KEYS),
+        steps: steps.map((step) => pick<StepInput>(step, STEP_KEYS)),
+        variants: variants
+            .map((variant) => pick<VariantSnapshot>(variant, VARIANT_KEYS))
+            .sort((a, b) => a.variantId.localeCompare(b.variantId)),
+    };
+};
+
+// The variants visitors of `version` are split between. Versions published
+// before variants were frozen with the tour still use the live ones.
+export const getPublishedVariants = async (
+    ctx: QueryCtx | MutationCtx,
+    version: Doc<'tourVersions'>
+): Promise<VariantSnapshot[]> => {
+    if (version.snapshot.variants) return version.snapshot.variants;
+    const variants = await ctx.db
+        .query('tourVariants')
+        .withIndex('by_tourId', (q) => q.eq('tourId', version.tourId))
+        .collect();
+    return variants.map((variant) => pick<VariantSnapshot>(variant, VARIANT_KEYS));
+};
+
+export const getVersion = async (ctx: QueryCtx | MutationCtx, tourId: Id<'tours'>, version: number) => {
+    return await ctx.db
+        .query('tourVersions')
+        .withIndex('by_tourId_version', (q) => q.eq('tourId', tourId).eq('version', version))
+        .first();
+};
+
+// Store `snapshot` as the tour's next version and make it the live one
+export const publishSnapshot = async (
+    ctx: MutationCtx,
+    tourId: Id<'tours'>,
+    snapshot: TourSnapshot,
+    meta: { publishedBy?: Id<'users'>; note?: string; rolledBackFrom?: number } = {}
+) => {
+    const latest = await ctx.db
+        .query('tourVersions')
+        .withIndex('by_tourId_version', (q) => q.eq('tourId', tourId))
+        .order('desc')
+        .first();
+    const version = (latest?.version ?? 0) + 1;
+    const now = Date.now();
+
+    await ctx.db.insert('tourVersions', { tourId, version, snapshot, publishedAt: now, ...meta });
+    await ctx.db.patch(tourId, { isPublished: true, publishedAt: now, publishedVersion: version });
+
+    return version;
+};
+
+// The tour and steps as published in `version`, shaped like the live tables
+export const materializeVersion = (tour: Doc<'tours'>, version: Doc<'tourVersions'>) => {
+    const { name, settings, steps } = version.snapshot;
+    const frozen = Object.fromEntries(SETTINGS_KEYS.map((key) => [key, settings[key]]));
+    return {
+        tour: { ...tour, ...frozen, name, totalSteps: steps.length } as Doc<'tours'>,
+        steps: steps.map((input, i) => buildStepDocument(tour._id, i + 1, input, version.publishedAt)),
+    };
+};
+
+// JSON with sorted keys, so equal values compare equal regardless of key order
+const canonical = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+};
+
+type FieldChange = { field: string; from: unknown; to: unknown };
+
+const diffFields = (from: Record<string, unknown>, to: Record<string, unknown>, keys: readonly string[]) => {
+    const changes: FieldChange[] = [];
+    for (const field of keys) {
+        if (canonical(from[field]) !== canonical(to[field])) {
+            changes.push({ field, from: from[field] ?? null, to: to[field] ?? null });
+        }
+    }
+    return changes;
+};
+
+// Setting, step and variant changes between two snapshots. Steps are matched
+// by `stepId`, falling back to their position; variants by `variantId`.
+export const diffSnapshots = (from: TourSnapshot, to: TourSnapshot) => {
+    const keyed = (steps: StepInput[]) =>
+        new Map(steps.map((step, i) => [step.stepId ?? `step-${i + 1}`, { step, order: i + 1 }]));
+    const before = keyed(from.steps);
+    const after = keyed(to.steps);
+
+    const changedSteps = [];
+    for (const [stepId, next] of after) {
+        const previous = before.get(stepId);
+        if (!previous) continue;
+        const fields = diffFields(previous.step, next.step, STEP_KEYS);
+        if (fields.length > 0 || previous.order !== next.order) {
+            changedSteps.push({ stepId, fromOrder: previous.order, toOrder: next.order, fields });
+        }
+    }
+
+    const variantsBefore = new Map((from.variants ?? []).map((variant) => [variant.variantId, variant]));
+    const variantsAfter = new Map((to.variants ?? []).map((variant) => [variant.variantId, variant]));
+    const changedVariants = [];
+    for (const [variantId, next] of variantsAfter) {
+        const previous = variantsBefore.get(variantId);
+        if (!previous) continue;
+        const fields = diffFields(previous, next, VARIANT_KEYS);
+        if (fields.length > 0) changedVariants.push({ variantId, fields });
+    }
+
+    return {
+        settings: diffFields({ ...from.settings, name: from.name }, { ...to.settings, name: to.name }, [
+            'name',
+            ...SETTINGS_KEYS,
+        ]),
+        addedSteps: [...after.keys()].filter((id) => !before.has(id)),
+        removedSteps: [...before.keys()].filter((id) => !after.has(id)),
+        changedSteps,
+        addedVariants: [...variantsAfter.keys()].filter((id) => !variantsBefore.has(id)),
+        removedVariants: [...variantsBefore.keys()].filter((id) => !variantsAfter.has(id)),
+        changedVariants,
+    };
+};
@@ -0,0 +1,171 @@
+import { nanoid } from 'nanoid';
+import type { MutationCtx } from '../_generated/server';
+import type { Doc, Id } from '../_generated/dataModel';
+import { internal } from '../_generated/api';
+import type { WebhookEvent } from '../validators';
+
+// Outgoing webhooks. Writes that owners may want to hear about call
+// `enqueueWebhook`, which queues one delivery per subscribed endpoint; the
+// sending and retrying happens in webhooks.ts.
+//
+// Every request carries `Webhook-Signature: t=<unix seconds>,v1=<hex>`, an
+// HMAC-SHA256 of `<t>.<body>` keyed with the endpoint secret. Receivers
+// should recompute it and reject stale timestamps.
+
+export const MAX_ATTEMPTS = 8;
+
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Wait before attempt `attempt + 1`: 30s, 1m, 2m, ... capped at 6h
+export const backoffMs = (attempt: number) => Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS);
+
+export const generateSecret = () => `whsec_${nanoid(32)}`;
+
+// IPv4 ranges webhooks may not reach: this network, private, carrier-grade
+// NAT, loopback, link-local (which holds cloud metadata at 169.254.169.254),
+// IETF protocol assignments, benchmarking, multicast and reserved
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+];
+
+const ipv4ToNumber = (ip: string) => ip.split('.').reduce((n, octet) => n * 256 + Number(octet), 0);
+
+const isBlockedIpv4 = (ip: string) =>
+    BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+        const size = 2 ** (32 - bits);
+        return Math.floor(ipv4ToNumber(ip) / size) === Math.floor(ipv4ToNumber(base) / size);
+    });
+
+// `hostname` as `URL` normalizes it: IPv4 in dotted decimal, IPv6 in brackets
+const isBlockedIpv6 = (hostname: string) => {
+    const ip = hostname.slice(1, -1).toLowerCase();
+    if (ip === '::' || ip === '::1') return true;
+    // IPv4-mapped, e.g. [::ffff:7f00:1] for 127.0.0.1
+    const mapped = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(ip);
+    if (mapped) {
+        const [high, low] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+        return isBlockedIpv4([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+    }
+    // Unique local fc00::/7 (AWS metadata is fd00:ec2::254), link-local fe80::/10, multicast ff00::/8
+    return /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith('ff');
+};
+
+const isLoopbackHost = (hostname: string) =>
+    hostname === 'localhost' ||
+    hostname.endsWith('.localhost') ||
+    hostname === '[::1]' ||
+    (/^\d+\.\d+\.\d+\.\d+$/.test(hostname) && hostname.startsWith('127.'));
+
+// Whether a URL's host is an internal address customers must not point
+// webhooks at. Only literal addresses and internal names are caught; the
+// deployment can't resolve DNS before sending.
+export const isInternalHost = (hostname: string) => {
+    const host = hostname.toLowerCase().replace(/\.$/, '');
+    if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) return isBlockedIpv4(host);
+    if (host.startsWith('[')) return isBlockedIpv6(host);
+    return (
+        host === 'localhost' ||
+        /\.(localhost|local|internal|home\.arpa)$/.test(host) ||
+        host === 'metadata' ||
+        !host.includes('.')
+    );
+};
+
+// Why `url` can't receive webhooks, or null if it can. Loopback receivers over
+// plain http are only allowed when the deployment sets
+// `WEBHOOKS_ALLOW_LOOPBACK=true`, e.g. a local backend during development.
+export const webhookUrlError = (url: string) => {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return 'Invalid webhook URL';
+    }
+    const allowedLoopback = process.env.WEBHOOKS_ALLOW_LOOPBACK === 'true' && isLoopbackHost(parsed.hostname);
+    if (!allowedLoopback && isInternalHost(parsed.hostname)) {
+        return 'Webhook URL must not point at a private or internal address';
+    }
+    if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && allowedLoopback)) {
+        return 'Webhook URL must use https';
+    }
+    return null;
+};
+
+export const signPayload = async (secret: string, timestamp: number, body: string) => {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+        'raw',
+        encoder.encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+    return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Queue `event` for every active endpoint of `userId` subscribed to it
+export const enqueueWebhook = async (
+    ctx: MutationCtx,
+    userId: Id<'users'>,
+    event: WebhookEvent,
+    data: Record<string, unknown>
+) => {
+    const endpoints = await ctx.db
+        .query('webhookEndpoints')
+        .withIndex('by_userId', (q) => q.eq('userId', userId))
+        .collect();
+    const subscribed = endpoints.filter((endpoint) => endpoint.isActive && endpoint.events.includes(event));
+    if (subscribed.length === 0) return;
+
+    const now = Date.now();
+    const eventId = `evt_${nanoid(24)}`;
+    const payload = JSON.stringify({ id: eventId, type: event, createdAt: now, data });
+
+    for (const endpoint of subscribed) {
+        const deliveryId = await ctx.db.insert('webhookDeliveries', {
+            endpointId: endpoint._id,
+            userId,
+            eventId,
+            event,
+            payload,
+            status: 'pending',
+            attempts: [],
+            nextAttemptAt: now,
+            createdAt: now,
+        });
+        await ctx.scheduler.runAfter(0, internal.webhooks.deliver, { deliveryId });
+    }
+};
+
+// What webhook receivers are told about a session
+export const sessionPayload = (session: Doc<'sessions'>) => ({
+    tourId: session.tourId,
+    sessionId: session.sessionId,
+    tourVersion: session.tourVersion ?? null,
+    variantId: session.variantId ?? null,
+    visitorId: session.visitorId ?? null,
+    status: session.status,
+    startedAt: session.startedAt,
+    completedAt: session.completedAt ?? null,
+    abandonedAt: session.abandonedAt ?? null,
+    duration: session.duration ?? null,
+    totalSteps: session.totalSteps,
+    stepsCompleted: session.stepsCompleted,
+    stepsSkipped: session.stepsSkipped,
+    device: session.device,
+    browser: session.browser,
+    os: session.os,
+    pageUrl: session.pageUrl,
+});
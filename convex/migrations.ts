@@ -0,0 +1,245 @@
+import { v } from 'convex/values';
+import type { GenericId } from 'convex/values';
+import { internalMutation } from './_generated/server';
+import type { MutationCtx } from './_generated/server';
+import type { Id } from './_generated/dataModel';
+import type { GenericDatabaseWriter, GenericDataModel, GenericDocument } from 'convex/server';
+import { internal } from './_generated/api';
+import { buildStepDocument, buildTourDocument, syncStepOrder } from './lib/tourModel';
+import { publishSnapshot, snapshotDraft } from './lib/versions';
+import { refreshEmbedCode } from './lib/embed';
+
+// One-off migrations from the original data model, where tours carried
+// `ownerId`, `type`, `status` and an inline `steps` array and analytics lived
+// in a `tourAnalytics` table.
+//
+// Legacy documents don't match schema.ts, so push with
+// `defineSchema(..., { schemaValidation: false })`, run
+// `npx convex run migrations:migrateLegacyTours` and
+// `npx convex run migrations:migrateTourAnalytics`, then re-enable validation.
+// Both migrations are idempotent and schedule themselves page by page.
+//
+// `snapshotPublishedTours` gives tours published before versioning existed
+// their first `tourVersions` snapshot; run it once after deploying.
+// `backfillEmbedCodes` fills in `embedCode` for tours created before it was
+// generated.
+
+const BATCH_SIZE = 50;
+
+type LegacyStep = {
+    id: string;
+    title: string;
+    content: string;
+    position: 'top' | 'bottom' | 'left' | 'right';
+    targetElement?: string;
+};
+
+type LegacyStepProgress = { stepId: string; startedAt: number; completedAt?: number };
+
+// Legacy documents are read without the schema's types
+const legacyDb = (ctx: MutationCtx) => ctx.db as unknown as GenericDatabaseWriter<GenericDataModel>;
+
+const isLegacyTour = (doc: GenericDocument) =>
+    'ownerId' in doc || 'type' in doc || 'status' in doc || Array.isArray(doc.steps);
+
+// Legacy `ownerId` held either a users id or the auth provider's id
+const resolveLegacyOwner = async (ctx: MutationCtx, ownerId: string) => {
+    const userId = ctx.db.normalizeId('users', ownerId);
+    if (userId && (await ctx.db.get(userId))) return userId;
+
+    const user = await ctx.db
+        .query('users')
+        .withIndex('by_authId', (q) => q.eq('authId', ownerId))
+        .first();
+    return user?._id ?? null;
+};
+
+export const migrateLegacyTours = internalMutation({
+    args: { cursor: v.optional(v.union(v.string(), v.null())) },
+    handler: async (ctx: MutationCtx, args: { cursor?: string | null }) => {
+        const page = await legacyDb(ctx)
+            .query('tours')
+            .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+        for (const doc of page.page) {
+            if (!isLegacyTour(doc)) continue;
+
+            const tourId = doc._id as Id<'tours'>;
+            const userId = await resolveLegacyOwner(ctx, String(doc.ownerId ?? doc.userId ?? ''));
+            if (!userId) {
+                console.warn(`Skipping tour ${tourId}: owner ${String(doc.ownerId)} not found`);
+                continue;
+            }
+
+            const now = Date.now();
+            const createdAt = typeof doc.createdAt === 'number' ? doc.createdAt : now;
+            const isActive = doc.status === 'active';
+
+            // replace() drops the legacy fields along with filling in defaults
+            await ctx.db.replace(tourId, {
+                ...buildTourDocument(
+                    userId,
+                    String(doc.name ?? 'Untitled tour'),
+                    {
+                        tourType: doc.type === 'ecommerce' || doc.type === 'saas' ? doc.type : 'custom',
+                        isActive,
+                    },
+                    createdAt
+                ),
+                isPublished: isActive,
+                publishedAt: isActive ? createdAt : undefined,
+                updatedAt: now,
+            });
+
+            const legacySteps = (Array.isArray(doc.steps) ? doc.steps : []) as LegacyStep[];
+            for (let i = 0; i < legacySteps.length; i++) {
+                const step = legacySteps[i];
+                await ctx.db.insert(
+                    'steps',
+                    buildStepDocument(
+                        tourId,
+                        i + 1,
+                        {
+                            stepId: step.id,
+                            title: step.title,
+                            content: step.content,
+                            position: step.position,
+                            targetElement: step.targetElement,
+                        },
+                        now
+                    )
+                );
+            }
+            await syncStepOrder(ctx, tourId);
+
+            const migrated = await ctx.db.get(tourId);
+            if (migrated && isActive) {
+                await publishSnapshot(ctx, tourId, await snapshotDraft(ctx, migrated), { note: 'Migrated' });
+            }
+        }
+
+        if (!page.isDone) {
+            await ctx.scheduler.runAfter(0, internal.migrations.migrateLegacyTours, {
+                cursor: page.continueCursor,
+            });
+        }
+    },
+});
+
+export const migrateTourAnalytics = internalMutation({
+    args: { cursor: v.optional(v.union(v.string(), v.null())) },
+    handler: async (ctx: MutationCtx, args: { cursor?: string | null }) => {
+        const page = await legacyDb(ctx)
+            .query('tourAnalytics')
+            .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+        for (const record of page.page) {
+            const tourId = ctx.db.normalizeId('tours', String(record.tourId));
+            const tour = tourId ? await ctx.db.get(tourId) : null;
+            if (!tour) {
+                console.warn(`Skipping analytics record ${String(record._id)}: tour not found`);
+                continue;
+            }
+
+            const sessionId = `legacy_${String(record._id)}`;
+            const existing = await ctx.db
+                .query('sessions')
+                .withIndex('by_sessionId', (q) => q.eq('sessionId', sessionId))
+                .first();
+
+            if (!existing) {
+                const startedAt = Number(record.startedAt);
+                const completedAt = typeof record.completedAt === 'number' ? record.completedAt : undefined;
+                const abandonedAt = typeof record.abandonedAt === 'number' ? record.abandonedAt : undefined;
+                const endedAt = completedAt ?? abandonedAt;
+                const progress = (record.stepProgress ?? []) as LegacyStepProgress[];
+                const completedSteps = progress.filter((p) => p.completedAt !== undefined);
+                const steps = await ctx.db
+                    .query('steps')
+                    .withIndex('by_tourId', (q) => q.eq('tourId', tour._id))
+                    .collect();
+
+                await ctx.db.insert('sessions', {
+                    tourId: tour._id,
+                    sessionId,
+                    startedAt,
+                    completedAt,
+                    abandonedAt,
+                    duration: endedAt !== undefined ? endedAt - startedAt : undefined,
+                    userAgent: 'unknown',
+                    browser: 'unknown',
+                    device: 'unknown',
+                    os: 'unknown',
+                    screenResolution: 'unknown',
+                    totalSteps: tour.totalSteps,
+                    stepsCompleted: completedSteps.length,
+                    stepsSkipped: 0,
+                    currentStep: completedSteps.length,
+                    status: completedAt ? 'completed' : abandonedAt ? 'abandoned' : 'in_progress',
+                    pageUrl: tour.targetUrl,
+                });
+
+                for (const step of completedSteps) {
+                    const stepCompletedAt = step.completedAt ?? step.startedAt;
+                    await ctx.db.insert('stepEvents', {
+                        tourId: tour._id,
+                        sessionId,
+                        stepId: step.stepId,
+                        stepOrder: steps.find((s) => s.stepId === step.stepId)?.order ?? 0,
+                        eventType: 'step_completed',
+                        timestamp: stepCompletedAt,
+                        timeOnStep: stepCompletedAt - step.startedAt,
+                    });
+                }
+            }
+
+            await legacyDb(ctx).delete(record._id as GenericId<'tourAnalytics'>);
+        }
+
+        if (!page.isDone) {
+            await ctx.scheduler.runAfter(0, internal.migrations.migrateTourAnalytics, {
+                cursor: page.continueCursor,
+            });
+        }
+    },
+});
+
+export const snapshotPublishedTours = internalMutation({
+    args: { cursor: v.optional(v.union(v.string(), v.null())) },
+    handler: async (ctx: MutationCtx, args: { cursor?: string | null }) => {
+        const page = await ctx.db
+            .query('tours')
+            .withIndex('by_isPublished', (q) => q.eq('isPublished', true))
+            .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+        for (const tour of page.page) {
+            if (tour.publishedVersion !== undefined) continue;
+            await publishSnapshot(ctx, tour._id, await snapshotDraft(ctx, tour), { note: 'Initial snapshot' });
+        }
+
+        if (!page.isDone) {
+            await ctx.scheduler.runAfter(0, internal.migrations.snapshotPublishedTours, {
+                cursor: page.continueCursor,
+            });
+        }
+    },
+});
+
+export const backfillEmbedCodes = internalMutation({
+    args: { cursor: v.optional(v.union(v.string(), v.null())) },
+    handler: async (ctx: MutationCtx, args: { cursor?: string | null }) => {
+        const page = await ctx.db.query('tours').paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+        for (const tour of page.page) {
+            if (tour.embedCode) continue;
+            const owner = await ctx.db.get(tour.userId);
+            if (owner) await refreshEmbedCode(ctx, tour, owner.apiKey);
+        }
+
+        if (!page.isDone) {
+            await ctx.scheduler.runAfter(0, internal.migrations.backfillEmbedCodes, {
+                cursor: page.continueCursor,
+            });
+        }
+    },
+});
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { convexTest } from 'convex-test';
+import { api, internal } from './_generated/api';
+import type { Doc, Id } from './_generated/dataModel';
+import schema from './schema';
+import { modules } from './test.setup';
+
+// The rollup cron over more sessions and step events than one mutation reads
+
+const NOW = Date.parse('2026-03-10T12:00:00Z');
+const TODAY = '2026-03-10';
+const YESTERDAY = '2026-03-09';
+const HOUR_MS = 60 * 60 * 1000;
+
+beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout', 'clearTimeout'] });
+    vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+const STATUSES = ['completed', 'abandoned', 'in_progress'] as const;
+
+// `count` sessions starting from `from`, cycling through the statuses and
+// alternating between variants `a` and `b`. Each views step `intro`, and
+// completed sessions complete it.
+const seedSessions = async (t: ReturnType<typeof convexTest>, tourId: Id<'tours'>, from: number, count: number) => {
+    await t.run(async (ctx) => {
+        for (let i = 0; i < count; i++) {
+            const sessionId = `ses_${tourId}_${from}_${i}`;
+            const startedAt = from + i;
+            const status = STATUSES[i % STATUSES.length];
+            await ctx.db.insert('sessions', {
+                tourId,
+                sessionId,
+                startedAt,
+                duration: status === 'completed' ? 1000 : undefined,
+                userAgent: 'vitest',
+                browser: 'Chrome',
+                device: 'desktop',
+                os: 'Linux',
+                screenResolution: '1920x1080',
+                totalSteps: 1,
+                stepsCompleted: status === 'completed' ? 1 : 0,
+                stepsSkipped: 0,
+                currentStep: 0,
+                status,
+                pageUrl: 'https://example.com',
+                variantId: i % 2 === 0 ? 'a' : 'b',
+            });
+            const eventTypes: Doc<'stepEvents'>['eventType'][] =
+                status === 'completed' ? ['step_viewed', 'step_completed'] : ['step_viewed'];
+            for (const eventType of eventTypes) {
+                await ctx.db.insert('stepEvents', {
+                    tourId,
+                    sessionId,
+                    stepId: 'intro',
+                    stepOrder: 0,
+                    eventType,
+                    timestamp: startedAt,
+                });
+            }
+        }
+    });
+};
+
+const setup = async () => {
+    const t = convexTest(schema, modules);
+    const as = t.withIdentity({ subject: 'alice', email: 'alice@example.com' });
+    await as.mutation(api.users.upsertUser, {});
+    const createTour = (name: string) =>
+        as.mutation(api.tours.createTour, { name, steps: [{ title: 'Welcome', content: 'Hello' }] });
+
+    const busy = await createTour('Busy');
+    const quiet = await createTour('Quiet');
+    await seedSessions(t, busy, Date.parse(`${TODAY}T00:00:00Z`), 1500);
+    await seedSessions(t, busy, Date.parse(`${YESTERDAY}T00:00:00Z`), 300);
+    // Outside the two days the cron refreshes
+    await seedSessions(t, busy, NOW - 5 * 24 * HOUR_MS, 30);
+    await seedSessions(t, quiet, NOW - HOUR_MS, 3);
+
+    const rollup = async () => {
+        await t.mutation(internal.rollups.rollupDailyStats, {});
+        await t.finishAllScheduledFunctions(vi.runAllTimers);
+    };
+    const stats = (tourId: Id<'tours'>) =>
+        t.run(async (ctx) => ({
+            days: await ctx.db
+                .query('tourDailyStats')
+                .withIndex('by_tourId_day', (q) => q.eq('tourId', tourId))
+                .collect(),
+            totals: await ctx.db
+                .query('tourStatsTotals')
+                .withIndex('by_tourId', (q) => q.eq('tourId', tourId))
+                .first(),
+        }));
+    const batches = () => t.run(async (ctx) => (await ctx.db.system.query('_scheduled_functions').collect()).length);
+    return { t, as, busy, quiet, rollup, stats, batches };
+};
+
+// convex-test scans a whole table per query, so thousands of rows take a while
+describe('rollupDailyStats', { timeout: 60_000 }, () => {
+    it('counts a busy tour-day across several mutations', async () => {
+        const { busy, quiet, rollup, stats, batches } = await setup();
+        await rollup();
+
+        // Some 6,000 session and event reads can't fit one batch
+        expect(await batches()).toBeGreaterThanOrEqual(1);
+
+        const { days, totals } = await stats(busy);
+        const byDay = Object.fromEntries(days.map((row) => [row.day, row]));
+        expect(Object.keys(byDay).sort()).toEqual([YESTERDAY, TODAY]);
+        expect(byDay[TODAY]).toMatchObject({
+            started: 1500,
+            completed: 500,
+            abandoned: 500,
+            stepViews: 1500,
+            completedDuration: 500 * 1000,
+        });
+        expect(byDay[YESTERDAY]).toMatchObject({ started: 300, completed: 100, abandoned: 100, stepViews: 300 });
+        expect(totals).toMatchObject({ started: 1800, completed: 600, abandoned: 600, stepViews: 1800 });
+
+        // Tours after the busy one are still reached
+        expect((await stats(quiet)).totals).toMatchObject({ started: 3, completed: 1, abandoned: 1, stepViews: 3 });
+    });
+
+    it('leaves the totals unchanged when run again', async () => {
+        const { busy, rollup, stats } = await setup();
+        await rollup();
+        const first = await stats(busy);
+        await rollup();
+        const second = await stats(busy);
+
+        expect(second.days).toEqual(first.days);
+        expect(second.totals).toEqual(first.totals);
+    });
+
+    it('serves the analytics queries, counting goal conversions only for sessions rolled up', async () => {
+        const { t, busy, as, rollup } = await setup();
+        await rollup();
+
+        const analytics = await as.query(api.analytics.getTourAnalytics, { tourId: busy });
+        expect(analytics).toMatchObject({ totalStarted: 1800, totalCompleted: 600 });
+        const intro = analytics.stepCompletionRates.find((step) => step.stepId === 'intro');
+        expect(intro?.completionRate).toBeCloseTo((600 / 1800) * 100);
+
+        const yesterday = Date.parse(`${YESTERDAY}T00:00:00Z`);
+        const late = 'ses_late';
+        await t.run(async (ctx) => {
+            await ctx.db.insert('sessions', {
+                tourId: busy,
+                sessionId: late,
+                startedAt: NOW + 1,
+                userAgent: 'vitest',
+                browser: 'Chrome',
+                device: 'desktop',
+                os: 'Linux',
+                screenResolution: '1920x1080',
+                totalSteps: 1,
+                stepsCompleted: 0,
+                stepsSkipped: 0,
+                currentStep: 0,
+                status: 'in_progress',
+                pageUrl: 'https://example.com',
+                variantId: 'a',
+            });
+            // Sessions 0-2 convert, session 0 twice; 0 and 2 are in variant a
+            const converted = [0, 0, 1, 2].map((i) => `ses_${busy}_${yesterday}_${i}`);
+            for (const sessionId of [...converted, late]) {
+                await ctx.db.insert('customEvents', {
+                    tourId: busy,
+                    sessionId,
+                    eventName: 'signup',
+                    eventData: {},
+                    timestamp: NOW,
+                });
+            }
+            await ctx.db.insert('customEvents', {
+                tourId: busy,
+                sessionId: converted[1],
+                eventName: 'other',
+                eventData: {},
+                timestamp: NOW,
+            });
+        });
+
+        const { variants } = await as.query(api.analytics.getVariantStats, { tourId: busy, goalEvent: 'signup' });
+        expect(variants.map((variant) => [variant.variantId, variant.sessions])).toEqual([
+            ['a', 900],
+            ['b', 900],
+        ]);
+        expect(variants.map((variant) => variant.completion.count)).toEqual([300, 300]);
+        expect(variants.map((variant) => variant.conversion?.count)).toEqual([2, 1]);
+    });
+});
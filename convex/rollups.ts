@@ -0,0 +1,118 @@
+import { v } from 'convex/values';
+import type { Infer } from 'convex/values';
+import { internalMutation } from './_generated/server';
+import type { MutationCtx } from './_generated/server';
+import { internal } from './_generated/api';
+import { countDayPage, emptyDayTally, lastUtcDays, markRolledUp, saveTourDay } from './lib/rollups';
+
+// Rebuilds the daily analytics rollups read by the dashboard. The hourly cron
+// (crons.ts) refreshes today and yesterday, which also picks up sessions that
+// ended after midnight. To backfill, run
+// `npx convex run rollups:rollupDailyStats '{"days": 365}'`.
+
+const DEFAULT_DAYS = 2;
+
+// Raw sessions and step events to read per mutation, to stay within read
+// limits. Tours are counted one day at a time; a busy day spans several
+// mutations, which carry its partial counts forward.
+const DOCS_PER_BATCH = 4000;
+
+// Sessions per page; each one's step events are read along with it
+const SESSIONS_PER_PAGE = 100;
+
+const progressValidator = v.object({
+    // When the run started, so its days stay the same past midnight
+    runAt: v.number(),
+    tourId: v.id('tours'),
+    tourCreationTime: v.number(),
+    day: v.string(),
+    table: v.union(v.literal('sessions'), v.literal('stepEvents')),
+    cursor: v.union(v.string(), v.null()),
+    tally: v.object({
+        counts: v.object({
+            started: v.number(),
+            completed: v.number(),
+            abandoned: v.number(),
+            stepViews: v.number(),
+            completedDuration: v.number(),
+        }),
+        steps: v.array(
+            v.object({ version: v.number(), stepId: v.string(), reached: v.number(), completed: v.number() })
+        ),
+        variants: v.array(
+            v.object({ version: v.number(), variantId: v.string(), started: v.number(), completed: v.number() })
+        ),
+    }),
+});
+
+type Progress = Infer<typeof progressValidator>;
+
+// Where counting starts for the first tour created after `after`, or null
+// once every tour is done
+const startNextTour = async (ctx: MutationCtx, runAt: number, day: string, after?: number): Promise<Progress | null> => {
+    const tour = await ctx.db
+        .query('tours')
+        .withIndex('by_creation_time', (q) => (after === undefined ? q : q.gt('_creationTime', after)))
+        .first();
+    if (!tour) return null;
+    return {
+        runAt,
+        tourId: tour._id,
+        tourCreationTime: tour._creationTime,
+        day,
+        table: 'sessions',
+        cursor: null,
+        tally: emptyDayTally(),
+    };
+};
+
+export const rollupDailyStats = internalMutation({
+    args: {
+        days: v.optional(v.number()),
+        progress: v.optional(progressValidator),
+    },
+    handler: async (ctx: MutationCtx, args: { days?: number; progress?: Progress }) => {
+        const runAt = args.progress?.runAt ?? Date.now();
+        const days = lastUtcDays(runAt, Math.max(1, Math.floor(args.days ?? DEFAULT_DAYS)));
+        let progress = args.progress ?? (await startNextTour(ctx, runAt, days[0]));
+        let budget = DOCS_PER_BATCH;
+
+        while (progress && budget > 0) {
+            const page = await countDayPage(
+                ctx,
+                progress.tourId,
+                progress.day,
+                progress.table,
+                {
+                    cursor: progress.cursor,
+                    numItems: progress.table === 'sessions' ? Math.min(budget, SESSIONS_PER_PAGE) : budget,
+                },
+                progress.tally
+            );
+            // Empty pages still cost a read
+            budget -= Math.max(1, page.read);
+
+            if (!page.isDone) {
+                progress = { ...progress, cursor: page.continueCursor, tally: page.tally };
+            } else if (progress.table === 'sessions') {
+                progress = { ...progress, table: 'stepEvents', cursor: null, tally: page.tally };
+            } else {
+                // A tour deleted mid-run is skipped
+                const tour = await ctx.db.get(progress.tourId);
+                if (tour) await saveTourDay(ctx, tour, progress.day, page.tally);
+
+                const nextDay = days[days.indexOf(progress.day) + 1];
+                if (nextDay) {
+                    progress = { ...progress, day: nextDay, table: 'sessions', cursor: null, tally: emptyDayTally() };
+                } else {
+                    if (tour) await markRolledUp(ctx, tour, runAt);
+                    progress = await startNextTour(ctx, runAt, days[0], progress.tourCreationTime);
+                }
+            }
+        }
+
+        if (progress) {
+            await ctx.scheduler.runAfter(0, internal.rollups.rollupDailyStats, { days: args.days, progress });
+        }
+    },
+});
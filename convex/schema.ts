@@ -1,5 +1,15 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import {
+  audienceRuleValidator,
+  feedbackPromptValidator,
+  feedbackTypeValidator,
+  stepInputValidator,
+  tourSettingsValidator,
+  tourSnapshotValidator,
+  variantSettingsValidator,
+  webhookEventValidator,
+} from "./validators";
 
 export default defineSchema({
   // Users table - synced with auth provider
@@ -55,11 +65,17 @@ export default defineSchema({
     allowRestart: v.boolean(),
     enableAvatar: v.boolean(),
     avatarType: v.optional(v.string()), // "robot", "human", "custom"
+    avatarModelUrl: v.optional(v.string()), // glTF/GLB model for the "custom" avatar
+    enableWebGL: v.optional(v.boolean()), // false renders the 2D avatar only
     
     // Advanced settings
     triggerEvent: v.optional(v.string()), // "pageload", "click", "scroll", "custom"
     triggerDelay: v.number(), // milliseconds
     completionRedirect: v.optional(v.string()),
+    defaultLocale: v.optional(v.string()), // language of the steps' own title/content, e.g. "en"
+    audience: v.optional(audienceRuleValidator), // who sees the tour, see lib/audience.ts
+    variantAssignment: v.optional(v.union(v.literal("visitor"), v.literal("session"))), // A/B unit, default "visitor"
+    feedbackPrompt: v.optional(feedbackPromptValidator), // rating prompt after completing or skipping
     
     // Metadata
     embedCode: v.string(),
@@ -69,6 +85,7 @@ export default defineSchema({
     createdAt: v.number(),
     updatedAt: v.number(),
     publishedAt: v.optional(v.number()),
+    publishedVersion: v.optional(v.number()), // tourVersions.version the widget is served
   })
     .index("by_userId", ["userId"])
     .index("by_isActive", ["isActive"])
@@ -89,8 +106,21 @@ export default defineSchema({
     title: v.string(),
     content: v.string(),
     contentType: v.union(v.literal("text"), v.literal("html"), v.literal("markdown")),
+    // Per-locale overrides keyed by BCP 47 tag ("fr", "fr-CA"); unset fields fall back
+    translations: v.optional(
+      v.record(
+        v.string(),
+        v.object({
+          title: v.optional(v.string()),
+          content: v.optional(v.string()),
+          buttonText: v.optional(v.string()),
+          imageAlt: v.optional(v.string()),
+        })
+      )
+    ),
     
     // Targeting
+    pageUrl: v.optional(v.string()), // URL or route pattern for multi-page tours, e.g. "/checkout/:step"
     targetElement: v.optional(v.string()), // CSS selector
     targetDescription: v.optional(v.string()), // human-readable description
     highlightElement: v.boolean(),
@@ -114,14 +144,16 @@ export default defineSchema({
     avatarConfig: v.optional(
       v.object({
         enabled: v.boolean(),
-        avatarType: v.string(),
-        animation: v.string(), // "wave", "point", "nod", "celebrate"
-        position: v.string(), // "left", "right", "top"
+        avatarType: v.optional(v.string()), // overrides the tour's avatarType
+        modelUrl: v.optional(v.string()), // overrides the tour's avatarModelUrl
+        animation: v.optional(v.string()), // "idle", "wave", "point", "nod", "celebrate"
+        position: v.optional(v.string()), // "left", "right", "top" of the card
       })
     ),
     
     // Media
     imageUrl: v.optional(v.string()),
+    imageAlt: v.optional(v.string()), // alt text for imageUrl
     videoUrl: v.optional(v.string()),
     
     // Interactions
@@ -143,6 +175,33 @@ export default defineSchema({
     .index("by_tourId_order", ["tourId", "order"])
     .index("by_stepId", ["tourId", "stepId"]),
 
+  // Immutable published snapshots of a tour; the tour and steps tables hold the draft
+  tourVersions: defineTable({
+    tourId: v.id("tours"),
+    version: v.number(), // 1, 2, 3... per tour
+    snapshot: tourSnapshotValidator,
+    publishedAt: v.number(),
+    publishedBy: v.optional(v.id("users")),
+    note: v.optional(v.string()),
+    rolledBackFrom: v.optional(v.number()), // set when this version republishes an older one
+  })
+    .index("by_tourId_version", ["tourId", "version"]),
+
+  // A/B test variants of a tour; unset overrides fall back to the tour itself
+  tourVariants: defineTable({
+    tourId: v.id("tours"),
+    variantId: v.string(), // stable key recorded on sessions, e.g. "control", "short"
+    name: v.string(),
+    weight: v.number(), // relative share of traffic; 0 pauses the variant
+    isControl: v.boolean(), // baseline the other variants are compared against
+    settings: v.optional(variantSettingsValidator),
+    steps: v.optional(v.array(stepInputValidator)), // replaces the tour's steps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_tourId", ["tourId"])
+    .index("by_tourId_variantId", ["tourId", "variantId"]),
+
   // Analytics - Tour sessions
   sessions: defineTable({
     tourId: v.id("tours"),
@@ -185,8 +244,17 @@ export default defineSchema({
     referrer: v.optional(v.string()),
     pageUrl: v.string(),
     pageTitle: v.optional(v.string()),
+    
+    // A/B test variant the visitor was assigned
+    variantId: v.optional(v.string()),
+    // Published tour version the session ran against
+    tourVersion: v.optional(v.number()),
+    // The host app's own id for the visitor, when it identifies them
+    visitorId: v.optional(v.string()),
   })
     .index("by_tourId", ["tourId"])
+    .index("by_tourId_version", ["tourId", "tourVersion"])
+    .index("by_tourId_startedAt", ["tourId", "startedAt"])
     .index("by_sessionId", ["sessionId"])
     .index("by_status", ["status"])
     .index("by_startedAt", ["startedAt"])
@@ -213,6 +281,7 @@ export default defineSchema({
     
     timestamp: v.number(),
     timeOnStep: v.optional(v.number()), // milliseconds
+    tourVersion: v.optional(v.number()), // copied from the session
     
     // Event metadata
     metadata: v.optional(
@@ -228,7 +297,71 @@ export default defineSchema({
     .index("by_sessionId", ["sessionId"])
     .index("by_stepId", ["tourId", "stepId"])
     .index("by_eventType", ["eventType"])
-    .index("by_timestamp", ["timestamp"]),
+    .index("by_timestamp", ["timestamp"])
+    .index("by_tourId_eventType_timestamp", ["tourId", "eventType", "timestamp"])
+    .index("by_tourId_timestamp", ["tourId", "timestamp"]),
+
+  // Analytics - Daily per-tour rollups of sessions and step events, bucketed
+  // by UTC day and rewritten by the rollup cron (see rollups.ts)
+  tourDailyStats: defineTable({
+    tourId: v.id("tours"),
+    userId: v.id("users"),
+    day: v.string(), // "YYYY-MM-DD" in UTC
+    started: v.number(), // sessions started that day
+    completed: v.number(), // ...of which completed
+    abandoned: v.number(), // ...of which abandoned
+    stepViews: v.number(), // step_viewed events that day
+    completedDuration: v.number(), // total milliseconds of the completed sessions
+    updatedAt: v.number(),
+  })
+    .index("by_tourId_day", ["tourId", "day"])
+    .index("by_userId_day", ["userId", "day"]),
+
+  // Analytics - All-time per-tour totals, kept equal to the sum of tourDailyStats
+  tourStatsTotals: defineTable({
+    tourId: v.id("tours"),
+    userId: v.id("users"),
+    started: v.number(),
+    completed: v.number(),
+    abandoned: v.number(),
+    stepViews: v.number(),
+    completedDuration: v.number(),
+    // Sessions started before this have been rolled up
+    rolledUpTo: v.optional(v.number()),
+    updatedAt: v.number(),
+  })
+    .index("by_tourId", ["tourId"])
+    .index("by_userId", ["userId"]),
+
+  // Analytics - Per-step breakdown of tourDailyStats by the published version
+  // the sessions ran (0 for sessions from before versions). Sessions count
+  // toward the day they started, once per step however often they saw it.
+  stepDailyStats: defineTable({
+    tourId: v.id("tours"),
+    userId: v.id("users"),
+    day: v.string(),
+    version: v.number(),
+    stepId: v.string(),
+    reached: v.number(), // sessions that reached the step
+    completed: v.number(), // ...and completed it
+    updatedAt: v.number(),
+  })
+    .index("by_tourId_day", ["tourId", "day"])
+    .index("by_tourId_version", ["tourId", "version"]),
+
+  // Analytics - Per-variant breakdown of tourDailyStats, by version as above
+  variantDailyStats: defineTable({
+    tourId: v.id("tours"),
+    userId: v.id("users"),
+    day: v.string(),
+    version: v.number(),
+    variantId: v.string(), // "" for sessions outside any A/B variant
+    started: v.number(),
+    completed: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_tourId_day", ["tourId", "day"])
+    .index("by_tourId_version", ["tourId", "version"]),
 
   // Analytics - Custom events
   customEvents: defineTable({
@@ -240,7 +373,9 @@ export default defineSchema({
   })
     .index("by_tourId", ["tourId"])
     .index("by_sessionId", ["sessionId"])
-    .index("by_eventName", ["eventName"]),
+    .index("by_eventName", ["eventName"])
+    .index("by_tourId_timestamp", ["tourId", "timestamp"])
+    .index("by_tourId_eventName", ["tourId", "eventName"]),
 
   // Tour templates for quick start
   templates: defineTable({
@@ -255,36 +390,22 @@ export default defineSchema({
     category: v.string(),
     previewImage: v.optional(v.string()),
     isOfficial: v.boolean(),
+    userId: v.optional(v.id("users")), // owner of a private template; unset for official ones
     usageCount: v.number(),
     
-    // Template configuration
-    defaultSteps: v.array(
-      v.object({
-        title: v.string(),
-        content: v.string(),
-        targetDescription: v.string(),
-        position: v.string(),
-      })
-    ),
-    
-    // Settings
-    defaultSettings: v.object({
-      theme: v.string(),
-      primaryColor: v.string(),
-      autoStart: v.boolean(),
-      showProgress: v.boolean(),
-      allowSkip: v.boolean(),
-      enableAvatar: v.boolean(),
-    }),
+    // Template configuration, copied into tours created from it
+    defaultSteps: v.array(stepInputValidator),
+    defaultSettings: tourSettingsValidator,
     
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_tourType", ["tourType"])
     .index("by_isOfficial", ["isOfficial"])
+    .index("by_userId", ["userId"])
     .searchIndex("search_templates", {
       searchField: "name",
-      filterFields: ["tourType", "isOfficial"],
+      filterFields: ["tourType", "isOfficial", "userId"],
     }),
 
   // User activity log
@@ -306,16 +427,49 @@ export default defineSchema({
     sessionId: v.string(),
     rating: v.number(), // 1-5
     comment: v.optional(v.string()),
-    feedbackType: v.union(
-      v.literal("helpful"),
-      v.literal("confusing"),
-      v.literal("too_long"),
-      v.literal("too_short"),
-      v.literal("technical_issue"),
-      v.literal("other")
-    ),
+    feedbackType: feedbackTypeValidator,
+    tourVersion: v.optional(v.number()), // copied from the session
     timestamp: v.number(),
   })
     .index("by_tourId", ["tourId"])
-    .index("by_rating", ["rating"]),
-});
\ No newline at end of file
+    .index("by_sessionId", ["sessionId"])
+    .index("by_rating", ["rating"])
+    .index("by_tourId_timestamp", ["tourId", "timestamp"]),
+
+  // Owner-registered endpoints that receive signed event notifications
+  webhookEndpoints: defineTable({
+    userId: v.id("users"),
+    url: v.string(),
+    description: v.optional(v.string()),
+    events: v.array(webhookEventValidator),
+    secret: v.string(), // whsec_..., signs every delivery with HMAC-SHA256
+    isActive: v.boolean(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_userId", ["userId"]),
+
+  // One event sent to one endpoint, retried with backoff until it succeeds
+  webhookDeliveries: defineTable({
+    endpointId: v.id("webhookEndpoints"),
+    userId: v.id("users"),
+    eventId: v.string(), // evt_..., stays the same across retries and replays
+    event: webhookEventValidator,
+    payload: v.string(), // exact JSON body sent
+    status: v.union(v.literal("pending"), v.literal("succeeded"), v.literal("failed")),
+    attempts: v.array(
+      v.object({
+        at: v.number(),
+        statusCode: v.optional(v.number()),
+        error: v.optional(v.string()),
+        responseBody: v.optional(v.string()), // truncated
+        durationMs: v.number(),
+      })
+    ),
+    nextAttemptAt: v.optional(v.number()),
+    replayOf: v.optional(v.id("webhookDeliveries")),
+    createdAt: v.number(),
+  })
+    .index("by_endpointId", ["endpointId"])
+    .index("by_status", ["status"]),
+});
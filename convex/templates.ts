@@ -0,0 +1,221 @@
+import { v } from 'convex/values';
+import { internalMutation, mutation, query } from './_generated/server';
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { tourTypeValidator } from './validators';
+import type { TourSettings } from './validators';
+import { getViewer, requireTourOwner, requireViewer } from './lib/auth';
+import { insertTourWithSteps } from './lib/tourModel';
+import { snapshotDraft } from './lib/versions';
+import { OFFICIAL_TEMPLATES } from './lib/officialTemplates';
+
+// Tour templates: official ones everyone can start from, and private ones
+// owners save from their own tours. Official templates are written by
+// `npx convex run templates:seedOfficialTemplates`.
+
+type TourType = Doc<'templates'>['tourType'];
+
+const SEARCH_LIMIT = 20;
+
+// Official templates and, when signed in, the viewer's own
+const canUse = (template: Doc<'templates'>, viewer: Doc<'users'> | null) =>
+    template.isOfficial || (!!viewer && template.userId === viewer._id);
+
+const requireTemplate = async (ctx: QueryCtx | MutationCtx, id: Id<'templates'>) => {
+    const viewer = await getViewer(ctx);
+    const template = await ctx.db.get(id);
+    if (!template || !canUse(template, viewer)) throw new Error('Not found');
+    return { viewer, template };
+};
+
+// Most used first, official before private
+const byPopularity = (a: Doc<'templates'>, b: Doc<'templates'>) =>
+    Number(b.isOfficial) - Number(a.isOfficial) || b.usageCount - a.usageCount;
+
+// Get the templates available to the viewer, optionally of one type or category
+export const listTemplates = query({
+    args: {
+        tourType: v.optional(tourTypeValidator),
+        category: v.optional(v.string()),
+    },
+    handler: async (ctx: QueryCtx, args: { tourType?: TourType; category?: string }) => {
+        const viewer = await getViewer(ctx);
+        const official = await ctx.db
+            .query('templates')
+            .withIndex('by_isOfficial', (q) => q.eq('isOfficial', true))
+            .collect();
+        const own = viewer
+            ? await ctx.db
+                  .query('templates')
+                  .withIndex('by_userId', (q) => q.eq('userId', viewer._id))
+                  .collect()
+            : [];
+
+        return [...official, ...own]
+            .filter(
+                (template) =>
+                    (!args.tourType || template.tourType === args.tourType) &&
+                    (!args.category || template.category === args.category)
+            )
+            .sort(byPopularity);
+    },
+});
+
+// Search available templates by name
+export const searchTemplates = query({
+    args: {
+        query: v.string(),
+        tourType: v.optional(tourTypeValidator),
+    },
+    handler: async (ctx: QueryCtx, args: { query: string; tourType?: TourType }) => {
+        const viewer = await getViewer(ctx);
+        const { tourType } = args;
+
+        const official = await ctx.db
+            .query('templates')
+            .withSearchIndex('search_templates', (q) => {
+                const search = q.search('name', args.query).eq('isOfficial', true);
+                return tourType ? search.eq('tourType', tourType) : search;
+            })
+            .take(SEARCH_LIMIT);
+        const own = viewer
+            ? await ctx.db
+                  .query('templates')
+                  .withSearchIndex('search_templates', (q) => {
+                      const search = q.search('name', args.query).eq('userId', viewer._id);
+                      return tourType ? search.eq('tourType', tourType) : search;
+                  })
+                  .take(SEARCH_LIMIT)
+            : [];
+
+        // Both lists come back by relevance; keep the viewer's own first
+        return [...own, ...official].slice(0, SEARCH_LIMIT);
+    },
+});
+
+// Get a specific template
+export const getTemplate = query({
+    args: {
+        id: v.id('templates'),
+    },
+    handler: async (ctx: QueryCtx, args: { id: Id<'templates'> }) => {
+        const { template } = await requireTemplate(ctx, args.id);
+        return template;
+    },
+});
+
+// Create a tour with the template's settings and steps. The tour starts
+// inactive and unpublished, like any new tour.
+export const createTourFromTemplate = mutation({
+    args: {
+        templateId: v.id('templates'),
+        name: v.optional(v.string()),
+        targetUrl: v.optional(v.string()),
+    },
+    handler: async (ctx: MutationCtx, args: { templateId: Id<'templates'>; name?: string; targetUrl?: string }) => {
+        const viewer = await requireViewer(ctx);
+        const { template } = await requireTemplate(ctx, args.templateId);
+
+        const settings: TourSettings = {
+            ...template.defaultSettings,
+            tourType: template.tourType,
+            description: template.defaultSettings.description ?? template.description,
+            targetUrl: args.targetUrl ?? template.defaultSettings.targetUrl,
+            isActive: false,
+        };
+        const tourId = await insertTourWithSteps(
+            ctx,
+            viewer._id,
+            args.name ?? template.name,
+            settings,
+            template.defaultSteps
+        );
+        await ctx.db.patch(template._id, { usageCount: template.usageCount + 1 });
+
+        await ctx.db.insert('activityLog', {
+            userId: viewer._id,
+            action: 'tour_created',
+            entityType: 'tour',
+            entityId: tourId,
+            metadata: { templateId: template._id },
+            timestamp: Date.now(),
+        });
+
+        return tourId;
+    },
+});
+
+// Save a tour's current draft as a private template
+export const saveTourAsTemplate = mutation({
+    args: {
+        tourId: v.id('tours'),
+        name: v.optional(v.string()),
+        description: v.optional(v.string()),
+        category: v.optional(v.string()),
+    },
+    handler: async (
+        ctx: MutationCtx,
+        args: { tourId: Id<'tours'>; name?: string; description?: string; category?: string }
+    ) => {
+        const { viewer, tour } = await requireTourOwner(ctx, args.tourId);
+        const { name, settings, steps } = await snapshotDraft(ctx, tour);
+
+        const now = Date.now();
+        return await ctx.db.insert('templates', {
+            name: args.name ?? name,
+            description: args.description ?? tour.description,
+            tourType: tour.tourType,
+            category: args.category ?? 'custom',
+            isOfficial: false,
+            userId: viewer._id,
+            usageCount: 0,
+            defaultSteps: steps,
+            defaultSettings: settings,
+            createdAt: now,
+            updatedAt: now,
+        });
+    },
+});
+
+// Delete one of the viewer's private templates
+export const deleteTemplate = mutation({
+    args: {
+        id: v.id('templates'),
+    },
+    handler: async (ctx: MutationCtx, args: { id: Id<'templates'> }) => {
+        const viewer = await requireViewer(ctx);
+        const template = await ctx.db.get(args.id);
+        if (!template) throw new Error('Not found');
+        if (template.userId !== viewer._id) throw new Error('Unauthorized');
+
+        await ctx.db.delete(args.id);
+        return args.id;
+    },
+});
+
+// Insert or refresh the official templates, keeping their usage counts
+export const seedOfficialTemplates = internalMutation({
+    args: {},
+    handler: async (ctx: MutationCtx) => {
+        const existing = await ctx.db
+            .query('templates')
+            .withIndex('by_isOfficial', (q) => q.eq('isOfficial', true))
+            .collect();
+
+        const now = Date.now();
+        for (const template of OFFICIAL_TEMPLATES) {
+            const current = existing.find((t) => t.name === template.name);
+            if (current) {
+                await ctx.db.patch(current._id, { ...template, updatedAt: now });
+            } else {
+                await ctx.db.insert('templates', {
+                    ...template,
+                    isOfficial: true,
+                    usageCount: 0,
+                    createdAt: now,
+                    updatedAt: now,
+                });
+            }
+        }
+    },
+});
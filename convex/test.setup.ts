@@ -0,0 +1,5 @@
+/// <reference types="vite/client" />
+
+// Function modules for convex-test. Files with more than one dot, like this
+// one and the tests, aren't deployed as functions.
+export const modules = import.meta.glob('./**/!(*.*.*)*.*s');
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { convexTest } from 'convex-test';
+import { api } from './_generated/api';
+import schema from './schema';
+import { modules } from './test.setup';
+
+// Step ids stay unique within a tour however its steps are inserted,
+// deleted and renamed
+
+const setup = async () => {
+    const t = convexTest(schema, modules);
+    const as = t.withIdentity({ subject: 'alice', email: 'alice@example.com' });
+    await as.mutation(api.users.upsertUser, {});
+    const tourId = await as.mutation(api.tours.createTour, {
+        name: 'Onboarding',
+        steps: [
+            { title: 'One', content: '' },
+            { title: 'Two', content: '' },
+            { title: 'Three', content: '' },
+        ],
+    });
+    const stepIds = async () => (await as.query(api.tours.listSteps, { tourId })).map((step) => step.stepId);
+    return { as, tourId, stepIds };
+};
+
+const expectUnique = (ids: string[]) => expect(new Set(ids).size).toBe(ids.length);
+
+describe('step ids', () => {
+    it('stay unique when steps are inserted before others', async () => {
+        const { as, tourId, stepIds } = await setup();
+        await as.mutation(api.tours.createStep, { tourId, order: 2, title: 'Inserted', content: '' });
+        expect(await stepIds()).toHaveLength(4);
+        expectUnique(await stepIds());
+    });
+
+    it('stay unique when a step is deleted and another appended', async () => {
+        const { as, tourId, stepIds } = await setup();
+        const [, second] = await as.query(api.tours.listSteps, { tourId });
+        await as.mutation(api.tours.deleteStep, { id: second._id });
+        await as.mutation(api.tours.createStep, { tourId, title: 'Appended', content: '' });
+        expectUnique(await stepIds());
+    });
+
+    it('are rejected when already used in the tour', async () => {
+        const { as, tourId } = await setup();
+        const [first, second] = await as.query(api.tours.listSteps, { tourId });
+
+        await expect(
+            as.mutation(api.tours.createStep, { tourId, stepId: first.stepId, title: 'Copy', content: '' })
+        ).rejects.toThrow('already used');
+        await expect(as.mutation(api.tours.updateStep, { id: second._id, stepId: first.stepId })).rejects.toThrow(
+            'already used'
+        );
+        await expect(
+            as.mutation(api.tours.createTour, {
+                name: 'Duplicates',
+                steps: [
+                    { stepId: 'intro', title: 'One', content: '' },
+                    { stepId: 'intro', title: 'Two', content: '' },
+                ],
+            })
+        ).rejects.toThrow('unique');
+    });
+
+    it('can be renamed or kept on update', async () => {
+        const { as, tourId, stepIds } = await setup();
+        const [first] = await as.query(api.tours.listSteps, { tourId });
+        await as.mutation(api.tours.updateStep, { id: first._id, stepId: first.stepId, title: 'Same id' });
+        await as.mutation(api.tours.updateStep, { id: first._id, stepId: 'welcome' });
+        expect((await stepIds())[0]).toBe('welcome');
+    });
+});
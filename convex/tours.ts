@@ -2,16 +2,27 @@ import { v } from 'convex/values';
 import { mutation, query } from './_generated/server';
 import type { MutationCtx, QueryCtx } from './_generated/server';
 import type { Id } from './_generated/dataModel';
+import { stepFields, stepInputValidator, tourSettingsFields } from './validators';
+import type { StepInput, TourSettings } from './validators';
+import {
+    assertStepIdAvailable,
+    buildStepDocument,
+    getOrderedSteps,
+    insertTourWithSteps,
+    newStepId,
+    syncStepOrder,
+} from './lib/tourModel';
+import { requireStepOwner, requireTourOwner, requireViewer } from './lib/auth';
+import { buildEmbedCode } from './lib/embed';
 
-// Get all tours for a user
+// Get all tours of the signed-in user
 export const listTours = query({
-    args: {
-        ownerId: v.string(),
-    },
-    handler: async (ctx: QueryCtx, args: { ownerId: string }) => {
+    args: {},
+    handler: async (ctx: QueryCtx) => {
+        const viewer = await requireViewer(ctx);
         return await ctx.db
             .query('tours')
-            .withIndex('by_owner', (q) => q.eq('ownerId', args.ownerId))
+            .withIndex('by_userId', (q) => q.eq('userId', viewer._id))
             .collect();
     },
 });
@@ -22,154 +33,229 @@ export const getTour = query({
         id: v.id('tours'),
     },
     handler: async (ctx: QueryCtx, args: { id: Id<'tours'> }) => {
-        return await ctx.db.get(args.id);
+        const { tour } = await requireTourOwner(ctx, args.id);
+        return tour;
     },
 });
 
-// Create a new tour
+// Embed snippet for a tour, with options beyond the stored default one
+export const getEmbedCode = query({
+    args: {
+        tourId: v.id('tours'),
+        locale: v.optional(v.string()),
+        autoStart: v.optional(v.boolean()),
+    },
+    handler: async (ctx: QueryCtx, args: { tourId: Id<'tours'>; locale?: string; autoStart?: boolean }) => {
+        const { viewer } = await requireTourOwner(ctx, args.tourId);
+        return buildEmbedCode(viewer.apiKey, args.tourId, { locale: args.locale, autoStart: args.autoStart });
+    },
+});
+
+// Create a new tour, optionally with its initial steps
 export const createTour = mutation({
     args: {
         name: v.string(),
-        type: v.union(
-            v.literal('ecommerce'),
-            v.literal('saas'),
-            v.literal('custom')
-        ),
-        status: v.union(v.literal('draft'), v.literal('active')),
-        steps: v.array(
-            v.object({
-                id: v.string(),
-                title: v.string(),
-                content: v.string(),
-                position: v.union(
-                    v.literal('top'),
-                    v.literal('bottom'),
-                    v.literal('left'),
-                    v.literal('right')
-                ),
-                targetElement: v.optional(v.string()),
-            })
-        ),
-        ownerId: v.string(),
+        ...tourSettingsFields,
+        steps: v.optional(v.array(stepInputValidator)),
     },
-    handler: async (
-        ctx: MutationCtx,
-        args: {
-            name: string;
-            type: 'ecommerce' | 'saas' | 'custom';
-            status: 'draft' | 'active';
-            steps: Array<{
-                id: string;
-                title: string;
-                content: string;
-                position: 'top' | 'bottom' | 'left' | 'right';
-                targetElement?: string;
-            }>;
-            ownerId: string;
-        }
-    ) => {
-        const now = Date.now();
-        const tourId = await ctx.db.insert('tours', {
-            name: args.name,
-            type: args.type,
-            status: args.status,
-            steps: args.steps,
-            ownerId: args.ownerId,
-            createdAt: now,
-            updatedAt: now,
+    handler: async (ctx: MutationCtx, args: TourSettings & { name: string; steps?: StepInput[] }) => {
+        const { name, steps, ...settings } = args;
+        const viewer = await requireViewer(ctx);
+        const userId = viewer._id;
+        const tourId = await insertTourWithSteps(ctx, userId, name, settings, steps ?? []);
+
+        await ctx.db.insert('activityLog', {
+            userId,
+            action: 'tour_created',
+            entityType: 'tour',
+            entityId: tourId,
+            timestamp: Date.now(),
         });
 
         return tourId;
     },
 });
 
-// Update an existing tour
+// Update an existing tour's settings
 export const updateTour = mutation({
     args: {
         id: v.id('tours'),
-        name: v.string(),
-        type: v.union(
-            v.literal('ecommerce'),
-            v.literal('saas'),
-            v.literal('custom')
-        ),
-        status: v.union(v.literal('draft'), v.literal('active')),
-        steps: v.array(
-            v.object({
-                id: v.string(),
-                title: v.string(),
-                content: v.string(),
-                position: v.union(
-                    v.literal('top'),
-                    v.literal('bottom'),
-                    v.literal('left'),
-                    v.literal('right')
-                ),
-                targetElement: v.optional(v.string()),
-            })
-        ),
+        name: v.optional(v.string()),
+        ...tourSettingsFields,
     },
-    handler: async (
-        ctx: MutationCtx,
-        args: {
-            id: Id<'tours'>;
-            name: string;
-            type: 'ecommerce' | 'saas' | 'custom';
-            status: 'draft' | 'active';
-            steps: Array<{
-                id: string;
-                title: string;
-                content: string;
-                position: 'top' | 'bottom' | 'left' | 'right';
-                targetElement?: string;
-            }>;
-        }
-    ) => {
-        const now = Date.now();
-        await ctx.db.patch(args.id, {
-            name: args.name,
-            type: args.type,
-            status: args.status,
-            steps: args.steps,
-            updatedAt: now,
+    handler: async (ctx: MutationCtx, args: TourSettings & { id: Id<'tours'>; name?: string }) => {
+        const { id, ...updates } = args;
+        await requireTourOwner(ctx, id);
+
+        await ctx.db.patch(id, {
+            ...updates,
+            updatedAt: Date.now(),
         });
 
-        return args.id;
+        return id;
     },
 });
 
-// Delete a tour
+// Delete a tour along with its steps
 export const deleteTour = mutation({
     args: {
         id: v.id('tours'),
     },
     handler: async (ctx: MutationCtx, args: { id: Id<'tours'> }) => {
+        const { tour } = await requireTourOwner(ctx, args.id);
+
+        const steps = await getOrderedSteps(ctx, args.id);
+        for (const step of steps) {
+            await ctx.db.delete(step._id);
+        }
+        const variants = await ctx.db
+            .query('tourVariants')
+            .withIndex('by_tourId', (q) => q.eq('tourId', args.id))
+            .collect();
+        for (const variant of variants) {
+            await ctx.db.delete(variant._id);
+        }
+        const versions = await ctx.db
+            .query('tourVersions')
+            .withIndex('by_tourId_version', (q) => q.eq('tourId', args.id))
+            .collect();
+        for (const version of versions) {
+            await ctx.db.delete(version._id);
+        }
+        const dailyStats = await ctx.db
+            .query('tourDailyStats')
+            .withIndex('by_tourId_day', (q) => q.eq('tourId', args.id))
+            .collect();
+        const totals = await ctx.db
+            .query('tourStatsTotals')
+            .withIndex('by_tourId', (q) => q.eq('tourId', args.id))
+            .collect();
+        const stepStats = await ctx.db
+            .query('stepDailyStats')
+            .withIndex('by_tourId_day', (q) => q.eq('tourId', args.id))
+            .collect();
+        const variantStats = await ctx.db
+            .query('variantDailyStats')
+            .withIndex('by_tourId_day', (q) => q.eq('tourId', args.id))
+            .collect();
+        for (const row of [...dailyStats, ...totals, ...stepStats, ...variantStats]) {
+            await ctx.db.delete(row._id);
+        }
         await ctx.db.delete(args.id);
+
+        await ctx.db.insert('activityLog', {
+            userId: tour.userId,
+            action: 'tour_deleted',
+            entityType: 'tour',
+            entityId: args.id,
+            timestamp: Date.now(),
+        });
+
         return args.id;
     },
 });
 
+// Get a tour's steps in display order
+export const listSteps = query({
+    args: {
+        tourId: v.id('tours'),
+    },
+    handler: async (ctx: QueryCtx, args: { tourId: Id<'tours'> }) => {
+        await requireTourOwner(ctx, args.tourId);
+        return await getOrderedSteps(ctx, args.tourId);
+    },
+});
+
+// Add a step to a tour, at the end unless an order is given
+export const createStep = mutation({
+    args: {
+        tourId: v.id('tours'),
+        order: v.optional(v.number()),
+        ...stepFields,
+    },
+    handler: async (ctx: MutationCtx, args: StepInput & { tourId: Id<'tours'>; order?: number }) => {
+        const { tourId, order, ...input } = args;
+        await requireTourOwner(ctx, tourId);
+        if (input.stepId !== undefined) await assertStepIdAvailable(ctx, tourId, input.stepId);
+
+        const steps = await getOrderedSteps(ctx, tourId);
+        const position = Math.min(Math.max(order ?? steps.length + 1, 1), steps.length + 1);
+
+        // Make room for the new step before renumbering
+        for (const step of steps) {
+            if (step.order >= position) {
+                await ctx.db.patch(step._id, { order: step.order + 1 });
+            }
+        }
+
+        const stepId = await ctx.db.insert('steps', buildStepDocument(tourId, position, { ...input, stepId: input.stepId ?? newStepId() }, Date.now()));
+        await syncStepOrder(ctx, tourId);
+
+        return stepId;
+    },
+});
+
+// Update a step's content or behavior
+export const updateStep = mutation({
+    args: {
+        id: v.id('steps'),
+        ...stepFields,
+        title: v.optional(v.string()),
+        content: v.optional(v.string()),
+    },
+    handler: async (
+        ctx: MutationCtx,
+        args: Partial<StepInput> & { id: Id<'steps'> }
+    ) => {
+        const { id, ...updates } = args;
+        const { step } = await requireStepOwner(ctx, id);
+        if (updates.stepId !== undefined && updates.stepId !== step.stepId) {
+            await assertStepIdAvailable(ctx, step.tourId, updates.stepId, id);
+        }
+
+        await ctx.db.patch(id, {
+            ...updates,
+            updatedAt: Date.now(),
+        });
+        await ctx.db.patch(step.tourId, { updatedAt: Date.now() });
+
+        return id;
+    },
+});
+
+// Reorder a tour's steps; stepIds must list every step of the tour
+export const reorderSteps = mutation({
+    args: {
+        tourId: v.id('tours'),
+        stepIds: v.array(v.id('steps')),
+    },
+    handler: async (ctx: MutationCtx, args: { tourId: Id<'tours'>; stepIds: Id<'steps'>[] }) => {
+        await requireTourOwner(ctx, args.tourId);
+        const steps = await getOrderedSteps(ctx, args.tourId);
+        const known = new Set(steps.map((s) => s._id));
+        if (
+            args.stepIds.length !== steps.length ||
+            new Set(args.stepIds).size !== steps.length ||
+            !args.stepIds.every((id) => known.has(id))
+        ) {
+            throw new Error('stepIds must contain each step of the tour exactly once');
+        }
+
+        for (let i = 0; i < args.stepIds.length; i++) {
+            await ctx.db.patch(args.stepIds[i], { order: i + 1, updatedAt: Date.now() });
+        }
+        await syncStepOrder(ctx, args.tourId);
+    },
+});
+
 export const deleteStep = mutation({
   args: { id: v.id("steps") },
   handler: async (ctx: MutationCtx, args: { id: Id<'steps'> }) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) throw new Error("Unauthorized");
-
-    const step = await ctx.db.get(args.id);
-    if (!step) throw new Error("Not found");
-
-    const tour = await ctx.db.get(step.tourId);
-    if (!tour || tour.userId !== identity.subject) throw new Error("Unauthorized");
+    const { step } = await requireStepOwner(ctx, args.id);
 
     await ctx.db.delete(args.id);
 
     // Reorder remaining steps
-    const remainingSteps = await ctx.db
-      .query("steps")
-      .withIndex("by_tourId_order", (q) => q.eq("tourId", step.tourId))
-      .collect();
-    for (let i = 0; i < remainingSteps.length; i++) {
-      await ctx.db.patch(remainingSteps[i]._id, { order: i + 1 });
-    }
+    await syncStepOrder(ctx, step.tourId);
   },
 });
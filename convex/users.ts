@@ -1,33 +1,35 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalQuery, mutation, query } from "./_generated/server";
 import type { MutationCtx, QueryCtx } from "./_generated/server";
-import type { Id } from "./_generated/dataModel";
 import { nanoid } from "nanoid";
+import { getViewer, requireViewer } from "./lib/auth";
+import { sumCounts } from "./lib/rollups";
+import { refreshOwnerEmbedCodes } from "./lib/embed";
 
-// Create or update user from auth provider
+// Create or update the signed-in user from their auth provider identity
 export const upsertUser = mutation({
-  args: {
-    authId: v.string(),
-    email: v.string(),
-    name: v.string(),
-    avatarUrl: v.optional(v.string()),
-  },
-  handler: async (
-    ctx: MutationCtx,
-    args: { authId: string; email: string; name: string; avatarUrl?: string }
-  ) => {
+  args: {},
+  handler: async (ctx: MutationCtx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+
+    const authId = identity.subject;
+    const email = identity.email ?? "";
+    const name = identity.name ?? identity.nickname ?? email;
+    const avatarUrl = identity.pictureUrl;
+
     // Check if user exists
     const existingUser = await ctx.db
       .query("users")
-      .withIndex("by_authId", (q) => q.eq("authId", args.authId))
+      .withIndex("by_authId", (q) => q.eq("authId", authId))
       .first();
 
     if (existingUser) {
       // Update existing user
       await ctx.db.patch(existingUser._id, {
-        email: args.email,
-        name: args.name,
-        avatarUrl: args.avatarUrl,
+        email,
+        name,
+        avatarUrl,
         updatedAt: Date.now(),
       });
       return existingUser._id;
@@ -37,10 +39,10 @@ export const upsertUser = mutation({
     const apiKey = `pk_live_${nanoid(32)}`;
     
     const userId = await ctx.db.insert("users", {
-      authId: args.authId,
-      email: args.email,
-      name: args.name,
-      avatarUrl: args.avatarUrl,
+      authId,
+      email,
+      name,
+      avatarUrl,
       plan: "free",
       apiKey,
       createdAt: Date.now(),
@@ -60,21 +62,16 @@ export const upsertUser = mutation({
   },
 });
 
-// Get user by auth ID
-export const getUserByAuthId = query({
-  args: { authId: v.string() },
-  handler: async (ctx: QueryCtx, args: { authId: string }) => {
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_authId", (q) => q.eq("authId", args.authId))
-      .first();
-    
-    return user;
+// Get the signed-in user, or null before upsertUser has run
+export const getCurrentUser = query({
+  args: {},
+  handler: async (ctx: QueryCtx) => {
+    return await getViewer(ctx);
   },
 });
 
 // Get user by API key (for widget authentication)
-export const getUserByApiKey = query({
+export const getUserByApiKey = internalQuery({
   args: { apiKey: v.string() },
   handler: async (ctx: QueryCtx, args: { apiKey: string }) => {
     const user = await ctx.db
@@ -86,21 +83,20 @@ export const getUserByApiKey = query({
   },
 });
 
-// Update user profile
+// Update the signed-in user's profile
 export const updateUserProfile = mutation({
   args: {
-    userId: v.id("users"),
     name: v.optional(v.string()),
     avatarUrl: v.optional(v.string()),
   },
   handler: async (
     ctx: MutationCtx,
-    args: { userId: Id<'users'>; name?: string; avatarUrl?: string }
+    args: { name?: string; avatarUrl?: string }
   ) => {
-    const { userId, ...updates } = args;
-    
+    const userId = (await requireViewer(ctx))._id;
+
     await ctx.db.patch(userId, {
-      ...updates,
+      ...args,
       updatedAt: Date.now(),
     });
 
@@ -116,22 +112,27 @@ export const updateUserProfile = mutation({
   },
 });
 
-// Regenerate API key
+// Regenerate the signed-in user's API key
 export const regenerateApiKey = mutation({
-  args: { userId: v.id("users") },
-  handler: async (ctx: MutationCtx, args: { userId: Id<'users'> }) => {
+  args: {},
+  handler: async (ctx: MutationCtx) => {
+    const viewer = await requireViewer(ctx);
+    const userId = viewer._id;
     const newApiKey = `pk_live_${nanoid(32)}`;
     
-    await ctx.db.patch(args.userId, {
+    await ctx.db.patch(userId, {
       apiKey: newApiKey,
       updatedAt: Date.now(),
     });
 
+    // Snippets already copied keep the old key and stop loading tours
+    await refreshOwnerEmbedCodes(ctx, { ...viewer, apiKey: newApiKey });
+
     await ctx.db.insert("activityLog", {
-      userId: args.userId,
+      userId,
       action: "api_key_regenerated",
       entityType: "user",
-      entityId: args.userId,
+      entityId: userId,
       timestamp: Date.now(),
     });
 
@@ -139,43 +140,30 @@ export const regenerateApiKey = mutation({
   },
 });
 
-// Get user statistics
+// Get the signed-in user's statistics
 export const getUserStats = query({
-  args: { ownerId: v.string() },
-  handler: async (ctx: QueryCtx, args: { ownerId: string }) => {
+  args: {},
+  handler: async (ctx: QueryCtx) => {
+    const viewer = await requireViewer(ctx);
+
     // Get all user's tours
     const tours = await ctx.db
       .query("tours")
-      .withIndex("by_owner", (q) => q.eq("ownerId", args.ownerId))
+      .withIndex("by_userId", (q) => q.eq("userId", viewer._id))
       .collect();
 
     const activeTours = tours.filter((t) => t.isActive).length;
     const publishedTours = tours.filter((t) => t.isPublished).length;
 
-    // Get total sessions across all tours
-    let totalSessions = 0;
-    let completedSessions = 0;
-    let totalViews = 0;
-
-    for (const tour of tours) {
-      const sessions = await ctx.db
-        .query("sessions")
-        .withIndex("by_tourId", (q) => q.eq("tourId", tour._id))
-        .collect();
-
-      totalSessions += sessions.length;
-      completedSessions += sessions.filter((s) => s.status === "completed").length;
-      
-      const events = await ctx.db
-        .query("stepEvents")
-        .withIndex("by_tourId", (q) => q.eq("tourId", tour._id))
-        .collect();
-      
-      totalViews += events.filter((e) => e.eventType === "step_viewed").length;
-    }
+    // Totals come from the daily rollups (see rollups.ts)
+    const totals = await ctx.db
+      .query("tourStatsTotals")
+      .withIndex("by_userId", (q) => q.eq("userId", viewer._id))
+      .collect();
+    const { started: totalSessions, completed: completedSessions, stepViews: totalViews } = sumCounts(totals);
 
-    const completionRate = totalSessions > 0 
-      ? (completedSessions / totalSessions) * 100 
+    const completionRate = totalSessions > 0
+      ? (completedSessions / totalSessions) * 100
       : 0;
 
     return {
@@ -190,18 +178,18 @@ export const getUserStats = query({
   },
 });
 
-// Get user activity log
+// Get the signed-in user's activity log
 export const getUserActivity = query({
   args: {
-    userId: v.id("users"),
     limit: v.optional(v.number()),
   },
-  handler: async (ctx: QueryCtx, args: { userId: Id<'users'>; limit?: number }) => {
+  handler: async (ctx: QueryCtx, args: { limit?: number }) => {
+    const viewer = await requireViewer(ctx);
     const limit = args.limit || 50;
     
     const activities = await ctx.db
       .query("activityLog")
-      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .withIndex("by_userId", (q) => q.eq("userId", viewer._id))
       .order("desc")
       .take(limit);
 
@@ -0,0 +1,227 @@
+import { v } from 'convex/values';
+import type { Infer } from 'convex/values';
+
+// Argument validators shared by the tour and step functions. They mirror the
+// field definitions in schema.ts.
+
+export const tourTypeValidator = v.union(
+    v.literal('ecommerce'),
+    v.literal('saas'),
+    v.literal('educational'),
+    v.literal('custom')
+);
+
+export const themeValidator = v.union(v.literal('light'), v.literal('dark'), v.literal('auto'));
+
+export const tourPositionValidator = v.union(
+    v.literal('top'),
+    v.literal('bottom'),
+    v.literal('left'),
+    v.literal('right'),
+    v.literal('center')
+);
+
+export const stepPositionValidator = v.union(
+    v.literal('top'),
+    v.literal('bottom'),
+    v.literal('left'),
+    v.literal('right'),
+    v.literal('center'),
+    v.literal('auto')
+);
+
+export const contentTypeValidator = v.union(v.literal('text'), v.literal('html'), v.literal('markdown'));
+
+export const avatarTypeValidator = v.union(v.literal('robot'), v.literal('human'), v.literal('custom'));
+
+export const avatarConfigValidator = v.object({
+    enabled: v.boolean(),
+    avatarType: v.optional(avatarTypeValidator),
+    modelUrl: v.optional(v.string()),
+    animation: v.optional(
+        v.union(
+            v.literal('idle'),
+            v.literal('wave'),
+            v.literal('point'),
+            v.literal('nod'),
+            v.literal('celebrate')
+        )
+    ),
+    position: v.optional(v.union(v.literal('left'), v.literal('right'), v.literal('top'))),
+});
+
+const audienceValueValidator = v.union(v.string(), v.number(), v.boolean(), v.null());
+
+const audienceMatchValidator = v.union(v.literal('all'), v.literal('any'));
+
+// One audience test, see lib/audience.ts for the fields and operators
+export const audienceConditionValidator = v.object({
+    field: v.string(),
+    operator: v.union(
+        v.literal('equals'),
+        v.literal('not_equals'),
+        v.literal('in'),
+        v.literal('not_in'),
+        v.literal('contains'),
+        v.literal('not_contains'),
+        v.literal('starts_with'),
+        v.literal('gt'),
+        v.literal('gte'),
+        v.literal('lt'),
+        v.literal('lte'),
+        v.literal('before'),
+        v.literal('after'),
+        v.literal('within_days'),
+        v.literal('exists'),
+        v.literal('not_exists')
+    ),
+    value: v.optional(v.union(audienceValueValidator, v.array(audienceValueValidator))),
+});
+
+// Conditions combined with AND (`all`) or OR (`any`), nested one level deep
+export const audienceRuleValidator = v.object({
+    match: audienceMatchValidator,
+    rules: v.array(
+        v.union(
+            audienceConditionValidator,
+            v.object({ match: audienceMatchValidator, conditions: v.array(audienceConditionValidator) })
+        )
+    ),
+});
+
+// Translated step text for one locale; unset fields fall back to the step's own
+export const stepTranslationValidator = v.object({
+    title: v.optional(v.string()),
+    content: v.optional(v.string()),
+    buttonText: v.optional(v.string()),
+    imageAlt: v.optional(v.string()),
+});
+
+export const feedbackTypeValidator = v.union(
+    v.literal('helpful'),
+    v.literal('confusing'),
+    v.literal('too_long'),
+    v.literal('too_short'),
+    v.literal('technical_issue'),
+    v.literal('other')
+);
+
+// When the widget asks visitors to rate a tour; off unless enabled
+export const feedbackPromptValidator = v.object({
+    onComplete: v.optional(v.boolean()),
+    onSkip: v.optional(v.boolean()),
+    question: v.optional(v.string()), // replaces the default "How was this tour?"
+});
+
+// Events owners can subscribe webhook endpoints to
+export const webhookEventValidator = v.union(
+    v.literal('tour.started'),
+    v.literal('tour.completed'),
+    v.literal('tour.abandoned'),
+    v.literal('step.completed'),
+    v.literal('feedback.submitted'),
+    v.literal('tour.published')
+);
+
+// Tour settings that can be set on create and changed on update
+export const tourSettingsFields = {
+    description: v.optional(v.string()),
+    tourType: v.optional(tourTypeValidator),
+    targetUrl: v.optional(v.string()),
+    targetUrlPattern: v.optional(v.string()),
+    isActive: v.optional(v.boolean()),
+    theme: v.optional(themeValidator),
+    primaryColor: v.optional(v.string()),
+    position: v.optional(tourPositionValidator),
+    autoStart: v.optional(v.boolean()),
+    showProgress: v.optional(v.boolean()),
+    allowSkip: v.optional(v.boolean()),
+    allowRestart: v.optional(v.boolean()),
+    enableAvatar: v.optional(v.boolean()),
+    avatarType: v.optional(avatarTypeValidator),
+    avatarModelUrl: v.optional(v.string()),
+    enableWebGL: v.optional(v.boolean()),
+    triggerEvent: v.optional(v.string()),
+    triggerDelay: v.optional(v.number()),
+    completionRedirect: v.optional(v.string()),
+    defaultLocale: v.optional(v.string()),
+    audience: v.optional(audienceRuleValidator),
+    variantAssignment: v.optional(v.union(v.literal('visitor'), v.literal('session'))),
+    feedbackPrompt: v.optional(feedbackPromptValidator),
+};
+
+// Step content and behavior; everything but the title and content is optional
+export const stepFields = {
+    stepId: v.optional(v.string()),
+    title: v.string(),
+    content: v.string(),
+    contentType: v.optional(contentTypeValidator),
+    translations: v.optional(v.record(v.string(), stepTranslationValidator)),
+    pageUrl: v.optional(v.string()),
+    targetElement: v.optional(v.string()),
+    targetDescription: v.optional(v.string()),
+    highlightElement: v.optional(v.boolean()),
+    highlightPadding: v.optional(v.number()),
+    position: v.optional(stepPositionValidator),
+    offset: v.optional(v.object({ x: v.number(), y: v.number() })),
+    avatarConfig: v.optional(avatarConfigValidator),
+    imageUrl: v.optional(v.string()),
+    imageAlt: v.optional(v.string()),
+    videoUrl: v.optional(v.string()),
+    requireInteraction: v.optional(v.boolean()),
+    interactionElement: v.optional(v.string()),
+    buttonText: v.optional(v.string()),
+    showBackButton: v.optional(v.boolean()),
+    customCSS: v.optional(v.string()),
+    customJS: v.optional(v.string()),
+    waitForElement: v.optional(v.string()),
+    waitTimeout: v.optional(v.number()),
+};
+
+// Presentation settings an A/B variant may override on its tour
+export const variantSettingsFields = {
+    theme: tourSettingsFields.theme,
+    primaryColor: tourSettingsFields.primaryColor,
+    position: tourSettingsFields.position,
+    showProgress: tourSettingsFields.showProgress,
+    allowSkip: tourSettingsFields.allowSkip,
+    allowRestart: tourSettingsFields.allowRestart,
+    enableAvatar: tourSettingsFields.enableAvatar,
+    avatarType: tourSettingsFields.avatarType,
+    avatarModelUrl: tourSettingsFields.avatarModelUrl,
+    enableWebGL: tourSettingsFields.enableWebGL,
+    triggerEvent: tourSettingsFields.triggerEvent,
+    triggerDelay: tourSettingsFields.triggerDelay,
+    completionRedirect: tourSettingsFields.completionRedirect,
+};
+
+export const tourSettingsValidator = v.object(tourSettingsFields);
+export const stepInputValidator = v.object(stepFields);
+export const variantSettingsValidator = v.object(variantSettingsFields);
+
+// An A/B variant as frozen into a published version
+export const variantSnapshotValidator = v.object({
+    variantId: v.string(),
+    name: v.string(),
+    weight: v.number(),
+    isControl: v.boolean(),
+    settings: v.optional(variantSettingsValidator),
+    steps: v.optional(v.array(stepInputValidator)),
+});
+
+// A published tour frozen at publish time; the widget is served from these
+export const tourSnapshotValidator = v.object({
+    name: v.string(),
+    settings: tourSettingsValidator,
+    steps: v.array(stepInputValidator),
+    // Unset in versions published before variants were frozen with the tour
+    variants: v.optional(v.array(variantSnapshotValidator)),
+});
+
+export type TourSettings = Infer<typeof tourSettingsValidator>;
+export type StepInput = Infer<typeof stepInputValidator>;
+export type VariantSettings = Infer<typeof variantSettingsValidator>;
+export type VariantSnapshot = Infer<typeof variantSnapshotValidator>;
+export type TourSnapshot = Infer<typeof tourSnapshotValidator>;
+export type WebhookEvent = Infer<typeof webhookEventValidator>;
+export type FeedbackType = Infer<typeof feedbackTypeValidator>;
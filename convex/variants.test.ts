@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { convexTest } from 'convex-test';
+import { api, internal } from './_generated/api';
+import schema from './schema';
+import { modules } from './test.setup';
+
+// A/B variants are served as frozen into the published version
+
+const setup = async () => {
+    const t = convexTest(schema, modules);
+    const as = t.withIdentity({ subject: 'alice', email: 'alice@example.com' });
+    await as.mutation(api.users.upsertUser, {});
+    const user = await as.query(api.users.getCurrentUser, {});
+    const tourId = await as.mutation(api.tours.createTour, {
+        name: 'Onboarding',
+        isActive: true,
+        steps: [{ title: 'Welcome', content: 'Original' }],
+    });
+    // The only variant with weight, so every visitor gets it
+    const variantId = await as.mutation(api.variants.createVariant, {
+        tourId,
+        variantId: 'short',
+        name: 'Short',
+        weight: 100,
+        steps: [{ title: 'Hi', content: 'Variant v1' }],
+    });
+
+    const served = async () => {
+        const result = await t.query(internal.ingest.getPublishedTours, {
+            apiKey: user!.apiKey,
+            pageUrl: 'https://example.com',
+            visitorId: 'visitor_1',
+        });
+        if (!result.ok) throw new Error('Failed to load tours');
+        const [tour] = result.tours;
+        return { variantId: tour.variantId, version: tour.version, content: tour.steps[0].content };
+    };
+    const startSession = (tourVersion: number, variant: string) =>
+        t.mutation(internal.ingest.startSession, {
+            apiKey: user!.apiKey,
+            tourId,
+            userAgent: 'vitest',
+            pageUrl: 'https://example.com',
+            tourVersion,
+            variantId: variant,
+        });
+    const sessionOf = (sessionId: string) =>
+        t.run((ctx) =>
+            ctx.db
+                .query('sessions')
+                .withIndex('by_sessionId', (q) => q.eq('sessionId', sessionId))
+                .first()
+        );
+    return { as, tourId, variantId, served, startSession, sessionOf };
+};
+
+describe('published variants', () => {
+    it('change for visitors only once the tour is published again', async () => {
+        const { as, tourId, variantId, served } = await setup();
+        await as.mutation(api.versions.publishTour, { tourId });
+        expect(await served()).toEqual({ variantId: 'short', version: 1, content: 'Variant v1' });
+
+        await as.mutation(api.variants.updateVariant, { id: variantId, steps: [{ title: 'Hi', content: 'Variant v2' }] });
+        expect(await served()).toEqual({ variantId: 'short', version: 1, content: 'Variant v1' });
+
+        await as.mutation(api.versions.publishTour, { tourId });
+        expect(await served()).toEqual({ variantId: 'short', version: 2, content: 'Variant v2' });
+    });
+
+    it('show up in the diff against the draft', async () => {
+        const { as, tourId, variantId } = await setup();
+        await as.mutation(api.versions.publishTour, { tourId });
+        await as.mutation(api.variants.updateVariant, { id: variantId, weight: 50 });
+
+        const diff = await as.query(api.versions.diffVersions, { tourId, from: 1 });
+        expect(diff.changedVariants).toEqual([
+            { variantId: 'short', fields: [{ field: 'weight', from: 100, to: 50 }] },
+        ]);
+    });
+
+    it('are recorded on sessions while still published, even once deleted from the draft', async () => {
+        const { as, tourId, variantId, startSession, sessionOf } = await setup();
+        await as.mutation(api.versions.publishTour, { tourId });
+        await as.mutation(api.variants.deleteVariant, { id: variantId });
+
+        const started = await startSession(1, 'short');
+        if (!started.ok) throw new Error('Failed to start a session');
+        expect((await sessionOf(started.sessionId))?.variantId).toBe('short');
+
+        const unknown = await startSession(1, 'made-up');
+        if (!unknown.ok) throw new Error('Failed to start a session');
+        expect((await sessionOf(unknown.sessionId))?.variantId).toBeUndefined();
+    });
+});
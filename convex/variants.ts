@@ -0,0 +1,128 @@
+import { v } from 'convex/values';
+import { mutation, query } from './_generated/server';
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import type { Id } from './_generated/dataModel';
+import { stepInputValidator, variantSettingsValidator } from './validators';
+import type { StepInput, VariantSettings } from './validators';
+import { requireTourOwner, requireVariantOwner } from './lib/auth';
+
+// A/B test variants of a tour. Visitors are split between the variants that
+// have weight (see lib/experiments.ts); a tour without any shows as is.
+// Variants are part of the draft: changes reach visitors with the tour's next
+// publish, which freezes them into the version.
+
+type VariantInput = {
+    name: string;
+    weight: number;
+    isControl?: boolean;
+    settings?: VariantSettings;
+    steps?: StepInput[];
+};
+
+const getVariants = async (ctx: QueryCtx | MutationCtx, tourId: Id<'tours'>) => {
+    return await ctx.db
+        .query('tourVariants')
+        .withIndex('by_tourId', (q) => q.eq('tourId', tourId))
+        .collect();
+};
+
+// Only one variant per tour can be the control
+const clearOtherControls = async (ctx: MutationCtx, tourId: Id<'tours'>, keep: Id<'tourVariants'>) => {
+    for (const variant of await getVariants(ctx, tourId)) {
+        if (variant._id !== keep && variant.isControl) {
+            await ctx.db.patch(variant._id, { isControl: false, updatedAt: Date.now() });
+        }
+    }
+};
+
+const checkWeight = (weight: number | undefined) => {
+    if (weight !== undefined && (!Number.isFinite(weight) || weight < 0)) {
+        throw new Error('Weight must be a non-negative number');
+    }
+};
+
+// Get a tour's variants
+export const listVariants = query({
+    args: {
+        tourId: v.id('tours'),
+    },
+    handler: async (ctx: QueryCtx, args: { tourId: Id<'tours'> }) => {
+        await requireTourOwner(ctx, args.tourId);
+        return await getVariants(ctx, args.tourId);
+    },
+});
+
+// Add a variant; the first one becomes the control unless told otherwise
+export const createVariant = mutation({
+    args: {
+        tourId: v.id('tours'),
+        variantId: v.string(),
+        name: v.string(),
+        weight: v.number(),
+        isControl: v.optional(v.boolean()),
+        settings: v.optional(variantSettingsValidator),
+        steps: v.optional(v.array(stepInputValidator)),
+    },
+    handler: async (ctx: MutationCtx, args: VariantInput & { tourId: Id<'tours'>; variantId: string }) => {
+        await requireTourOwner(ctx, args.tourId);
+        checkWeight(args.weight);
+
+        const existing = await ctx.db
+            .query('tourVariants')
+            .withIndex('by_tourId_variantId', (q) => q.eq('tourId', args.tourId).eq('variantId', args.variantId))
+            .first();
+        if (existing) throw new Error('Variant id already in use');
+
+        const isFirst = (await getVariants(ctx, args.tourId)).length === 0;
+        const now = Date.now();
+        const id = await ctx.db.insert('tourVariants', {
+            tourId: args.tourId,
+            variantId: args.variantId,
+            name: args.name,
+            weight: args.weight,
+            isControl: args.isControl ?? isFirst,
+            settings: args.settings,
+            steps: args.steps,
+            createdAt: now,
+            updatedAt: now,
+        });
+        if (args.isControl) await clearOtherControls(ctx, args.tourId, id);
+
+        return id;
+    },
+});
+
+// Change a variant's name, traffic weight or overrides. Its `variantId` is
+// fixed because sessions refer to it.
+export const updateVariant = mutation({
+    args: {
+        id: v.id('tourVariants'),
+        name: v.optional(v.string()),
+        weight: v.optional(v.number()),
+        isControl: v.optional(v.boolean()),
+        settings: v.optional(variantSettingsValidator),
+        steps: v.optional(v.array(stepInputValidator)),
+    },
+    handler: async (ctx: MutationCtx, args: Partial<VariantInput> & { id: Id<'tourVariants'> }) => {
+        const { id, ...updates } = args;
+        const { variant } = await requireVariantOwner(ctx, id);
+        checkWeight(updates.weight);
+
+        await ctx.db.patch(id, { ...updates, updatedAt: Date.now() });
+        if (updates.isControl) await clearOtherControls(ctx, variant.tourId, id);
+
+        return id;
+    },
+});
+
+// Remove a variant; sessions already assigned to it keep its id
+export const deleteVariant = mutation({
+    args: {
+        id: v.id('tourVariants'),
+    },
+    handler: async (ctx: MutationCtx, args: { id: Id<'tourVariants'> }) => {
+        await requireVariantOwner(ctx, args.id);
+        await ctx.db.delete(args.id);
+        return args.id;
+    },
+});
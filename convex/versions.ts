@@ -0,0 +1,165 @@
+import { v } from 'convex/values';
+import { mutation, query } from './_generated/server';
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import type { Id } from './_generated/dataModel';
+import { requireTourOwner } from './lib/auth';
+import { diffSnapshots, getVersion, publishSnapshot, snapshotDraft } from './lib/versions';
+import { enqueueWebhook } from './lib/webhooks';
+
+// Publishing, rollback and history of a tour. Edits made through tours.ts
+// only change the draft; visitors see the published version until the next
+// publish.
+
+const requireVersion = async (ctx: QueryCtx | MutationCtx, tourId: Id<'tours'>, version: number) => {
+    const doc = await getVersion(ctx, tourId, version);
+    if (!doc) throw new Error('Not found');
+    return doc;
+};
+
+// Get a tour's published versions, newest first, without their snapshots
+export const listVersions = query({
+    args: {
+        tourId: v.id('tours'),
+    },
+    handler: async (ctx: QueryCtx, args: { tourId: Id<'tours'> }) => {
+        const { tour } = await requireTourOwner(ctx, args.tourId);
+        const versions = await ctx.db
+            .query('tourVersions')
+            .withIndex('by_tourId_version', (q) => q.eq('tourId', args.tourId))
+            .order('desc')
+            .collect();
+
+        return versions.map(({ snapshot, ...version }) => ({
+            ...version,
+            name: snapshot.name,
+            totalSteps: snapshot.steps.length,
+            isLive: tour.isPublished && tour.publishedVersion === version.version,
+        }));
+    },
+});
+
+// Get one published version with its snapshot
+export const getTourVersion = query({
+    args: {
+        tourId: v.id('tours'),
+        version: v.number(),
+    },
+    handler: async (ctx: QueryCtx, args: { tourId: Id<'tours'>; version: number }) => {
+        await requireTourOwner(ctx, args.tourId);
+        return await requireVersion(ctx, args.tourId, args.version);
+    },
+});
+
+// Compare two versions; leave out `to` to compare against the current draft
+export const diffVersions = query({
+    args: {
+        tourId: v.id('tours'),
+        from: v.number(),
+        to: v.optional(v.number()),
+    },
+    handler: async (ctx: QueryCtx, args: { tourId: Id<'tours'>; from: number; to?: number }) => {
+        const { tour } = await requireTourOwner(ctx, args.tourId);
+        const from = await requireVersion(ctx, args.tourId, args.from);
+        const to =
+            args.to === undefined
+                ? await snapshotDraft(ctx, tour)
+                : (await requireVersion(ctx, args.tourId, args.to)).snapshot;
+
+        return diffSnapshots(from.snapshot, to);
+    },
+});
+
+// Publish the current draft as the tour's next version
+export const publishTour = mutation({
+    args: {
+        tourId: v.id('tours'),
+        note: v.optional(v.string()),
+    },
+    handler: async (ctx: MutationCtx, args: { tourId: Id<'tours'>; note?: string }) => {
+        const { viewer, tour } = await requireTourOwner(ctx, args.tourId);
+        const snapshot = await snapshotDraft(ctx, tour);
+        if (snapshot.steps.length === 0) throw new Error('Add a step before publishing');
+
+        const version = await publishSnapshot(ctx, args.tourId, snapshot, {
+            publishedBy: viewer._id,
+            note: args.note,
+        });
+
+        await ctx.db.insert('activityLog', {
+            userId: tour.userId,
+            action: 'tour_published',
+            entityType: 'tour',
+            entityId: args.tourId,
+            metadata: { version },
+            timestamp: Date.now(),
+        });
+        await enqueueWebhook(ctx, tour.userId, 'tour.published', {
+            tourId: args.tourId,
+            name: snapshot.name,
+            version,
+            rolledBackFrom: null,
+            note: args.note ?? null,
+        });
+
+        return version;
+    },
+});
+
+// Stop serving a tour; its versions are kept for a later publish or rollback
+export const unpublishTour = mutation({
+    args: {
+        tourId: v.id('tours'),
+    },
+    handler: async (ctx: MutationCtx, args: { tourId: Id<'tours'> }) => {
+        const { tour } = await requireTourOwner(ctx, args.tourId);
+        await ctx.db.patch(args.tourId, { isPublished: false });
+
+        await ctx.db.insert('activityLog', {
+            userId: tour.userId,
+            action: 'tour_unpublished',
+            entityType: 'tour',
+            entityId: args.tourId,
+            timestamp: Date.now(),
+        });
+
+        return args.tourId;
+    },
+});
+
+// Republish an earlier version as a new one, so history only moves forward.
+// The draft is left alone.
+export const rollbackTour = mutation({
+    args: {
+        tourId: v.id('tours'),
+        version: v.number(),
+        note: v.optional(v.string()),
+    },
+    handler: async (ctx: MutationCtx, args: { tourId: Id<'tours'>; version: number; note?: string }) => {
+        const { viewer, tour } = await requireTourOwner(ctx, args.tourId);
+        const target = await requireVersion(ctx, args.tourId, args.version);
+
+        const version = await publishSnapshot(ctx, args.tourId, target.snapshot, {
+            publishedBy: viewer._id,
+            note: args.note,
+            rolledBackFrom: target.version,
+        });
+
+        await ctx.db.insert('activityLog', {
+            userId: tour.userId,
+            action: 'tour_rolled_back',
+            entityType: 'tour',
+            entityId: args.tourId,
+            metadata: { version, rolledBackFrom: target.version },
+            timestamp: Date.now(),
+        });
+        await enqueueWebhook(ctx, tour.userId, 'tour.published', {
+            tourId: args.tourId,
+            name: target.snapshot.name,
+            version,
+            rolledBackFrom: target.version,
+            note: args.note ?? null,
+        });
+
+        return version;
+    },
+});
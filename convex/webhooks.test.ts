@@ -0,0 +1,223 @@
+// @vitest-environment node
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { convexTest } from 'convex-test';
+import { api } from './_generated/api';
+import schema from './schema';
+import { MAX_ATTEMPTS, backoffMs, enqueueWebhook, signPayload, webhookUrlError } from './lib/webhooks';
+import { modules } from './test.setup';
+
+// Webhooks sent to a receiver on this machine, which verifies signatures the
+// way customers are told to.
+
+interface Received {
+    headers: Record<string, string | string[] | undefined>;
+    body: string;
+    signatureValid: boolean;
+}
+
+let server: Server;
+let receiverUrl: string;
+let secret = '';
+// Status the receiver answers with, given how many requests it has had
+let respond = (_count: number) => 200;
+let received: Received[] = [];
+
+// Recompute `v1` from `t` and the raw body
+const verifySignature = (header: string | undefined, body: string) => {
+    const parts = Object.fromEntries((header ?? '').split(',').map((part) => part.split('=') as [string, string]));
+    if (!parts.t || !parts.v1) return false;
+    const expected = createHmac('sha256', secret).update(`${parts.t}.${body}`).digest();
+    const actual = Buffer.from(parts.v1, 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+            const header = req.headers['webhook-signature'];
+            received.push({
+                headers: req.headers,
+                body,
+                signatureValid: verifySignature(typeof header === 'string' ? header : undefined, body),
+            });
+            res.writeHead(respond(received.length)).end('ok');
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+    vi.stubEnv('WEBHOOKS_ALLOW_LOOPBACK', 'true');
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout', 'clearTimeout'] });
+    respond = () => 200;
+    received = [];
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+});
+
+// An owner subscribed to `tour.started` at the local receiver
+const setup = async () => {
+    const t = convexTest(schema, modules);
+    const as = t.withIdentity({ subject: 'alice', email: 'alice@example.com' });
+    const userId = await as.mutation(api.users.upsertUser, {});
+    const endpoint = await as.mutation(api.webhooks.createWebhookEndpoint, {
+        url: receiverUrl,
+        events: ['tour.started'],
+    });
+    secret = endpoint.secret;
+
+    // Run scheduled deliveries, retries included, to completion
+    const drain = () => t.finishAllScheduledFunctions(vi.runAllTimers);
+    const send = async () => {
+        await t.run((ctx) => enqueueWebhook(ctx, userId, 'tour.started', { sessionId: 'ses_1' }));
+        await drain();
+    };
+    const deliveries = () => as.query(api.webhooks.listWebhookDeliveries, { endpointId: endpoint.id });
+    return { as, send, drain, deliveries };
+};
+
+describe('signing', () => {
+    it('is an HMAC-SHA256 of `<t>.<body>` keyed with the secret', async () => {
+        const expected = createHmac('sha256', 'whsec_test').update('1700000000.{"a":1}').digest('hex');
+        expect(await signPayload('whsec_test', 1700000000, '{"a":1}')).toBe(expected);
+    });
+
+    it('sends `Webhook-Signature: t=..,v1=..` that the receiver can verify', async () => {
+        const { send, deliveries } = await setup();
+        await send();
+
+        expect(received).toHaveLength(1);
+        const [request] = received;
+        expect(request.headers['webhook-signature']).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+        expect(request.signatureValid).toBe(true);
+        expect(request.headers['webhook-event']).toBe('tour.started');
+        expect(JSON.parse(request.body)).toMatchObject({ type: 'tour.started', data: { sessionId: 'ses_1' } });
+
+        const [delivery] = await deliveries();
+        expect(delivery.status).toBe('succeeded');
+        expect(delivery.attempts).toHaveLength(1);
+        expect(delivery.attempts[0].statusCode).toBe(200);
+    });
+});
+
+describe('retries', () => {
+    it('back off from 30s, doubling, capped at 6h', () => {
+        expect([1, 2, 3, 4, 5, 6, 7].map(backoffMs)).toEqual(
+            [30, 60, 120, 240, 480, 960, 1920].map((seconds) => seconds * 1000)
+        );
+        expect(backoffMs(12)).toBe(6 * 60 * 60 * 1000);
+        expect(backoffMs(40)).toBe(6 * 60 * 60 * 1000);
+    });
+
+    it(`give up after ${MAX_ATTEMPTS} failed attempts on that schedule`, async () => {
+        const { send, deliveries } = await setup();
+        respond = () => 500;
+        await send();
+
+        expect(received).toHaveLength(MAX_ATTEMPTS);
+        expect(received.every((request) => request.signatureValid)).toBe(true);
+
+        const [delivery] = await deliveries();
+        expect(delivery.status).toBe('failed');
+        expect(delivery.attempts).toHaveLength(MAX_ATTEMPTS);
+        expect(delivery.attempts.every((attempt) => attempt.statusCode === 500)).toBe(true);
+        const gaps = delivery.attempts.slice(1).map((attempt, i) => attempt.at - delivery.attempts[i].at);
+        expect(gaps).toEqual([1, 2, 3, 4, 5, 6, 7].map(backoffMs));
+    });
+
+    it('stop once the receiver recovers', async () => {
+        const { send, deliveries } = await setup();
+        respond = (count) => (count <= 2 ? 503 : 200);
+        await send();
+
+        expect(received).toHaveLength(3);
+        const [delivery] = await deliveries();
+        expect(delivery.status).toBe('succeeded');
+        expect(delivery.attempts.map((attempt) => attempt.statusCode)).toEqual([503, 503, 200]);
+    });
+});
+
+describe('replay', () => {
+    it('sends the same event again as a new delivery', async () => {
+        const { as, send, drain, deliveries } = await setup();
+        respond = () => 500;
+        await send();
+        const [failed] = await deliveries();
+
+        respond = () => 200;
+        received = [];
+        await as.mutation(api.webhooks.replayWebhookDelivery, { deliveryId: failed._id });
+        await drain();
+
+        const replay = (await deliveries()).find((delivery) => delivery._id !== failed._id)!;
+        expect(replay.status).toBe('succeeded');
+        expect(replay.replayOf).toBe(failed._id);
+        expect(replay.eventId).toBe(failed.eventId);
+        expect(received).toHaveLength(1);
+        expect(received[0].body).toBe(failed.payload);
+        expect(received[0].headers['webhook-id']).toBe(failed.eventId);
+        expect(received[0].signatureValid).toBe(true);
+    });
+});
+
+describe('endpoint URLs', () => {
+    it.each([
+        'https://10.0.0.5/hooks',
+        'https://172.20.1.1/hooks',
+        'https://192.168.1.10/hooks',
+        'https://100.64.0.1/hooks',
+        'https://169.254.169.254/latest/meta-data',
+        'https://0.0.0.0/hooks',
+        'https://[fe80::1]/hooks',
+        'https://[fd00:ec2::254]/hooks',
+        'https://[::ffff:10.0.0.1]/hooks',
+        'https://metadata.google.internal/computeMetadata/v1',
+        'https://printer.local/hooks',
+        'https://intranet/hooks',
+    ])('rejects internal address %s', (url) => {
+        expect(webhookUrlError(url)).toMatch(/private or internal/);
+    });
+
+    it('rejects loopback unless the deployment allows it', () => {
+        expect(webhookUrlError('http://127.0.0.1:3000/hooks')).toBeNull();
+        vi.stubEnv('WEBHOOKS_ALLOW_LOOPBACK', '');
+        expect(webhookUrlError('http://127.0.0.1:3000/hooks')).toMatch(/private or internal/);
+        expect(webhookUrlError('https://localhost/hooks')).toMatch(/private or internal/);
+        expect(webhookUrlError('https://[::1]/hooks')).toMatch(/private or internal/);
+        // 127.0.0.1 written as a number
+        expect(webhookUrlError('https://2130706433/hooks')).toMatch(/private or internal/);
+    });
+
+    it('accepts public https URLs and nothing else', () => {
+        expect(webhookUrlError('https://hooks.example.com/tours')).toBeNull();
+        expect(webhookUrlError('https://93.184.216.34/hooks')).toBeNull();
+        expect(webhookUrlError('http://hooks.example.com/tours')).toMatch(/https/);
+        expect(webhookUrlError('not a url')).toMatch(/Invalid/);
+    });
+
+    it('are checked when an endpoint is created', async () => {
+        const t = convexTest(schema, modules);
+        const as = t.withIdentity({ subject: 'alice' });
+        await as.mutation(api.users.upsertUser, {});
+        await expect(
+            as.mutation(api.webhooks.createWebhookEndpoint, {
+                url: 'https://169.254.169.254/latest',
+                events: ['tour.started'],
+            })
+        ).rejects.toThrow('private or internal');
+    });
+});
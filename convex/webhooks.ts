@@ -0,0 +1,293 @@
+import { v } from 'convex/values';
+import { internalAction, internalMutation, internalQuery, mutation, query } from './_generated/server';
+import type { ActionCtx, MutationCtx, QueryCtx } from './_generated/server';
+import type { Id } from './_generated/dataModel';
+import { internal } from './_generated/api';
+import { webhookEventValidator } from './validators';
+import type { WebhookEvent } from './validators';
+import { requireViewer, requireWebhookEndpointOwner } from './lib/auth';
+import { MAX_ATTEMPTS, backoffMs, generateSecret, signPayload, webhookUrlError } from './lib/webhooks';
+
+// Webhook endpoints and their delivery log. See lib/webhooks.ts for how
+// events are queued and signed.
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_RESPONSE_BODY = 1000;
+const DEFAULT_DELIVERY_LIMIT = 50;
+
+const checkUrl = (url: string) => {
+    const error = webhookUrlError(url);
+    if (error) throw new Error(error);
+};
+
+const checkEvents = (events: WebhookEvent[]) => {
+    if (events.length === 0) throw new Error('Subscribe to at least one event');
+};
+
+// Get the signed-in user's endpoints; secrets are only shown on create and rotate
+export const listWebhookEndpoints = query({
+    args: {},
+    handler: async (ctx: QueryCtx) => {
+        const viewer = await requireViewer(ctx);
+        const endpoints = await ctx.db
+            .query('webhookEndpoints')
+            .withIndex('by_userId', (q) => q.eq('userId', viewer._id))
+            .collect();
+        return endpoints.map(({ secret: _secret, ...endpoint }) => endpoint);
+    },
+});
+
+// Register an endpoint; returns its signing secret
+export const createWebhookEndpoint = mutation({
+    args: {
+        url: v.string(),
+        events: v.array(webhookEventValidator),
+        description: v.optional(v.string()),
+    },
+    handler: async (ctx: MutationCtx, args: { url: string; events: WebhookEvent[]; description?: string }) => {
+        const viewer = await requireViewer(ctx);
+        checkUrl(args.url);
+        checkEvents(args.events);
+
+        const now = Date.now();
+        const secret = generateSecret();
+        const id = await ctx.db.insert('webhookEndpoints', {
+            userId: viewer._id,
+            url: args.url,
+            description: args.description,
+            events: [...new Set(args.events)],
+            secret,
+            isActive: true,
+            createdAt: now,
+            updatedAt: now,
+        });
+
+        return { id, secret };
+    },
+});
+
+// Change an endpoint's URL, events or description, or pause it
+export const updateWebhookEndpoint = mutation({
+    args: {
+        id: v.id('webhookEndpoints'),
+        url: v.optional(v.string()),
+        events: v.optional(v.array(webhookEventValidator)),
+        description: v.optional(v.string()),
+        isActive: v.optional(v.boolean()),
+    },
+    handler: async (
+        ctx: MutationCtx,
+        args: {
+            id: Id<'webhookEndpoints'>;
+            url?: string;
+            events?: WebhookEvent[];
+            description?: string;
+            isActive?: boolean;
+        }
+    ) => {
+        const { id, ...updates } = args;
+        await requireWebhookEndpointOwner(ctx, id);
+        if (updates.url !== undefined) checkUrl(updates.url);
+        if (updates.events !== undefined) {
+            checkEvents(updates.events);
+            updates.events = [...new Set(updates.events)];
+        }
+
+        await ctx.db.patch(id, { ...updates, updatedAt: Date.now() });
+        return id;
+    },
+});
+
+// Replace an endpoint's signing secret; the old one stops working at once
+export const rotateWebhookSecret = mutation({
+    args: {
+        id: v.id('webhookEndpoints'),
+    },
+    handler: async (ctx: MutationCtx, args: { id: Id<'webhookEndpoints'> }) => {
+        await requireWebhookEndpointOwner(ctx, args.id);
+        const secret = generateSecret();
+        await ctx.db.patch(args.id, { secret, updatedAt: Date.now() });
+        return secret;
+    },
+});
+
+// Delete an endpoint along with its delivery log
+export const deleteWebhookEndpoint = mutation({
+    args: {
+        id: v.id('webhookEndpoints'),
+    },
+    handler: async (ctx: MutationCtx, args: { id: Id<'webhookEndpoints'> }) => {
+        await requireWebhookEndpointOwner(ctx, args.id);
+        const deliveries = await ctx.db
+            .query('webhookDeliveries')
+            .withIndex('by_endpointId', (q) => q.eq('endpointId', args.id))
+            .collect();
+        for (const delivery of deliveries) {
+            await ctx.db.delete(delivery._id);
+        }
+        await ctx.db.delete(args.id);
+        return args.id;
+    },
+});
+
+// Get an endpoint's most recent deliveries with every attempt's outcome
+export const listWebhookDeliveries = query({
+    args: {
+        endpointId: v.id('webhookEndpoints'),
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx: QueryCtx, args: { endpointId: Id<'webhookEndpoints'>; limit?: number }) => {
+        await requireWebhookEndpointOwner(ctx, args.endpointId);
+        return await ctx.db
+            .query('webhookDeliveries')
+            .withIndex('by_endpointId', (q) => q.eq('endpointId', args.endpointId))
+            .order('desc')
+            .take(args.limit || DEFAULT_DELIVERY_LIMIT);
+    },
+});
+
+// Send a delivery's payload again as a new delivery, e.g. after fixing the receiver
+export const replayWebhookDelivery = mutation({
+    args: {
+        deliveryId: v.id('webhookDeliveries'),
+    },
+    handler: async (ctx: MutationCtx, args: { deliveryId: Id<'webhookDeliveries'> }) => {
+        const original = await ctx.db.get(args.deliveryId);
+        if (!original) throw new Error('Not found');
+        await requireWebhookEndpointOwner(ctx, original.endpointId);
+
+        const now = Date.now();
+        const deliveryId = await ctx.db.insert('webhookDeliveries', {
+            endpointId: original.endpointId,
+            userId: original.userId,
+            eventId: original.eventId,
+            event: original.event,
+            payload: original.payload,
+            status: 'pending',
+            attempts: [],
+            nextAttemptAt: now,
+            replayOf: original._id,
+            createdAt: now,
+        });
+        await ctx.scheduler.runAfter(0, internal.webhooks.deliver, { deliveryId });
+
+        return deliveryId;
+    },
+});
+
+// A pending delivery and its endpoint, if the endpoint can still receive it
+export const getDeliveryTarget = internalQuery({
+    args: {
+        deliveryId: v.id('webhookDeliveries'),
+    },
+    handler: async (ctx: QueryCtx, args: { deliveryId: Id<'webhookDeliveries'> }) => {
+        const delivery = await ctx.db.get(args.deliveryId);
+        if (!delivery || delivery.status !== 'pending') return null;
+        const endpoint = await ctx.db.get(delivery.endpointId);
+        return { delivery, endpoint: endpoint?.isActive ? endpoint : null };
+    },
+});
+
+// Log an attempt and either settle the delivery or schedule the next try
+export const recordAttempt = internalMutation({
+    args: {
+        deliveryId: v.id('webhookDeliveries'),
+        at: v.number(),
+        durationMs: v.number(),
+        statusCode: v.optional(v.number()),
+        error: v.optional(v.string()),
+        responseBody: v.optional(v.string()),
+        final: v.optional(v.boolean()),
+    },
+    handler: async (
+        ctx: MutationCtx,
+        args: {
+            deliveryId: Id<'webhookDeliveries'>;
+            at: number;
+            durationMs: number;
+            statusCode?: number;
+            error?: string;
+            responseBody?: string;
+            final?: boolean;
+        }
+    ) => {
+        const { deliveryId, final, ...attempt } = args;
+        const delivery = await ctx.db.get(deliveryId);
+        if (!delivery || delivery.status !== 'pending') return;
+
+        const attempts = [...delivery.attempts, attempt];
+        const succeeded = attempt.statusCode !== undefined && attempt.statusCode >= 200 && attempt.statusCode < 300;
+        if (succeeded || final || attempts.length >= MAX_ATTEMPTS) {
+            await ctx.db.patch(deliveryId, {
+                attempts,
+                status: succeeded ? 'succeeded' : 'failed',
+                nextAttemptAt: undefined,
+            });
+            return;
+        }
+
+        const delay = backoffMs(attempts.length);
+        await ctx.db.patch(deliveryId, { attempts, nextAttemptAt: Date.now() + delay });
+        await ctx.scheduler.runAfter(delay, internal.webhooks.deliver, { deliveryId });
+    },
+});
+
+// POST one delivery to its endpoint; any non-2xx response or network error is retried
+export const deliver = internalAction({
+    args: {
+        deliveryId: v.id('webhookDeliveries'),
+    },
+    handler: async (ctx: ActionCtx, args: { deliveryId: Id<'webhookDeliveries'> }) => {
+        const target = await ctx.runQuery(internal.webhooks.getDeliveryTarget, args);
+        if (!target) return;
+        const { delivery, endpoint } = target;
+
+        const at = Date.now();
+        // Endpoints saved before a URL rule existed are checked again here
+        const refusal = endpoint ? webhookUrlError(endpoint.url) : 'Endpoint was deleted or disabled';
+        if (!endpoint || refusal) {
+            await ctx.runMutation(internal.webhooks.recordAttempt, {
+                deliveryId: args.deliveryId,
+                at,
+                durationMs: 0,
+                error: refusal ?? undefined,
+                final: true,
+            });
+            return;
+        }
+
+        const timestamp = Math.floor(at / 1000);
+        const signature = await signPayload(endpoint.secret, timestamp, delivery.payload);
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+        let outcome: { statusCode?: number; error?: string; responseBody?: string };
+        try {
+            const res = await fetch(endpoint.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'onboardx-webhooks/1.0',
+                    'Webhook-Id': delivery.eventId,
+                    'Webhook-Event': delivery.event,
+                    'Webhook-Signature': `t=${timestamp},v1=${signature}`,
+                },
+                body: delivery.payload,
+                signal: controller.signal,
+            });
+            const text = await res.text().catch(() => '');
+            outcome = { statusCode: res.status, responseBody: text.slice(0, MAX_RESPONSE_BODY) || undefined };
+        } catch (e) {
+            outcome = { error: controller.signal.aborted ? 'Timed out' : e instanceof Error ? e.message : 'Request failed' };
+        } finally {
+            clearTimeout(timer);
+        }
+
+        await ctx.runMutation(internal.webhooks.recordAttempt, {
+            deliveryId: args.deliveryId,
+            at,
+            durationMs: Date.now() - at,
+            ...outcome,
+        });
+    },
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import axe from 'axe-core';
+import { Widget } from './Widget';
+import type { TourConfig } from './types';
+
+const TOUR: TourConfig = {
+    id: 'tour_a11y',
+    enableAvatar: false,
+    steps: [
+        { id: 'intro', title: 'Welcome', content: 'Let me show you around.', position: 'center' },
+        { id: 'next', title: 'Features', content: 'Here are the key features.', position: 'center' },
+    ],
+};
+
+describe('step dialog', () => {
+    // Where focus starts, and returns to once the dialog closes
+    let opener: HTMLButtonElement | null = null;
+
+    beforeEach(() => {
+        localStorage.clear();
+        sessionStorage.clear();
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ sessionId: 'ses_test' }))));
+    });
+
+    afterEach(() => {
+        opener?.remove();
+        opener = null;
+        vi.unstubAllGlobals();
+    });
+
+    const openTour = async () => {
+        opener = document.createElement('button');
+        opener.textContent = 'Open';
+        document.body.appendChild(opener);
+        opener.focus();
+
+        render(<Widget tours={TOUR} locale="en" />);
+        const dialog = await screen.findByRole('dialog');
+        return { opener, dialog };
+    };
+
+    it('has no axe violations', async () => {
+        const { dialog } = await openTour();
+        const results = await axe.run(dialog, { rules: { 'color-contrast': { enabled: false } } });
+        expect(results.violations).toEqual([]);
+    });
+
+    it('is a labelled modal dialog', async () => {
+        const { dialog } = await openTour();
+        expect(dialog.getAttribute('aria-modal')).toBe('true');
+        expect(screen.getByRole('dialog', { name: 'Welcome' })).toBe(dialog);
+        const description = document.getElementById(dialog.getAttribute('aria-describedby') ?? '');
+        expect(description?.textContent).toContain('Let me show you around.');
+    });
+
+    it('moves focus into the dialog and restores it once closed', async () => {
+        const { opener, dialog } = await openTour();
+        await waitFor(() => expect(dialog.contains(document.activeElement)).toBe(true));
+
+        fireEvent.keyDown(dialog, { key: 'Escape' });
+
+        await waitFor(() => expect(screen.queryByRole('dialog')).toBeNull());
+        expect(document.activeElement).toBe(opener);
+    });
+
+    it('steps forward and back with the arrow keys', async () => {
+        const { dialog } = await openTour();
+
+        fireEvent.keyDown(dialog, { key: 'ArrowRight' });
+        expect(await screen.findByRole('dialog', { name: 'Features' })).toBeTruthy();
+
+        fireEvent.keyDown(screen.getByRole('dialog'), { key: 'ArrowLeft' });
+        expect(await screen.findByRole('dialog', { name: 'Welcome' })).toBeTruthy();
+    });
+});
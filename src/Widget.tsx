@@ -1,229 +1,670 @@
-import React, { useState, useEffect } from 'react';
-import { Canvas } from '@react-three/fiber';
+import React, { useState, useEffect, useId, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { OrbitControls, Sphere, MeshDistortMaterial } from '@react-three/drei';
+import { useFocusTrap } from './a11y';
+import { fetchTours, track as postEvent } from './api';
+import { Avatar } from './avatar';
+import type { AvatarDirection } from './avatar';
+import type { StepEventMetadata, StepEventType } from './api';
+import { computeCardPosition, padRect, queryTarget, useElementSize, useTargetRect } from './positioning';
+import { StepContent } from './content';
+import { toError } from './controller';
+import type { WidgetBridge, WidgetCommand } from './controller';
+import { onInteraction, waitForElement } from './gating';
+import { StepMedia } from './media';
+import { FeedbackPrompt } from './feedback';
+import type { FeedbackInput } from './feedback';
+import { getUiStrings, isRtl, localizeStep, resolveLocale } from './i18n';
+import { matchesPage, useLocationHref } from './navigation';
+import {
+    clearProgress,
+    getBrowserSessionId,
+    getVisitorId,
+    listInProgressTourIds,
+    loadProgress,
+    recordVisit,
+    saveOutcome,
+    saveProgress,
+} from './progress';
+import { isTourEligible } from './targeting';
+import type { VisitorTraits } from './targeting';
+import { paletteToVars, scopeCss, useTourPalette } from './theme';
+import { usePrefersReducedMotion } from './preferences';
+import { GOAL_EVENT, onTourTrigger } from './triggers';
+import type { TourConfig } from './types';
 
-type AnalyticsCallbacks = {
-    onStart?: (tourId: string, userId?: string) => void;
-    onStepComplete?: (stepId: string) => void;
-    onComplete?: () => void;
-    onAbandon?: () => void;
-};
-
-interface Step {
-    id: string;
-    title: string;
-    content: string;
-    targetElement?: string; // CSS selector
-    position?: 'top' | 'bottom' | 'left' | 'right';
+// Mounted by the SDK entry points (main.tsx, react.tsx), which report its
+// events through `controller`
+interface WidgetProps {
+    apiKey?: string; // public pk_live_ key; published tours are loaded with it
+    apiUrl?: string; // base URL of the backend HTTP endpoints
+    tours?: TourConfig; // render this tour instead of loading one
+    locale?: string; // BCP 47 tag; defaults to the browser's language
+    visitor?: VisitorTraits; // attributes for audience rules, e.g. { plan: 'pro' }
+    visitorId?: string; // the host app's id for the visitor; also their A/B assignment unit
+    tourId?: string; // only ever show this tour, e.g. from an embed snippet
+    autoStart?: boolean; // false waits for `controller.start()` instead of the tour's trigger
+    controller?: WidgetBridge; // programmatic start/stop/goTo and events, see controller.ts
 }
 
-interface WidgetProps extends AnalyticsCallbacks {
-    tours?: {
-        id?: string;
-        steps: Step[];
-    };
-}
-
-const Avatar = () => {
-    return (
-        <mesh>
-            <Sphere args={[1, 32, 32]} scale={1.5}>
-                <MeshDistortMaterial
-                    color="#4f46e5"
-                    attach="material"
-                    distort={0.5}
-                    speed={2}
-                />
-            </Sphere>
-        </mesh>
-    );
+// Shown when neither a tour nor an API key is given, e.g. the dev preview
+const DEMO_TOUR: TourConfig = {
+    steps: [
+        { title: 'Welcome', content: 'Welcome to our platform! Le me show you around.', id: '1', targetElement: '#tour-start' },
+        { title: 'Features', content: 'Here are the key features you can use.', id: '2', targetElement: '#feature-button' },
+        { title: 'Dashboard', content: 'Track your progress in the dashboard.', id: '3' },
+        { title: 'Settings', content: 'Configure your account settings here.', id: '4' },
+        { title: 'Get Started', content: 'You are all set! Click here to begin.', id: '5' },
+    ],
 };
 
-export const Widget: React.FC<WidgetProps> = ({ tours, onStart, onStepComplete, onComplete: onCompleteCb, onAbandon }) => {
+// Layout of the avatar and the docked card for each `avatarConfig.position`
+const AVATAR_LAYOUT = {
+    top: { className: 'flex-col items-end', direction: 0 },
+    left: { className: 'flex-row items-end', direction: 1 },
+    right: { className: 'flex-row-reverse items-end', direction: -1 },
+} satisfies Record<string, { className: string; direction: AvatarDirection }>;
+
+export const Widget: React.FC<WidgetProps> = ({
+    apiKey,
+    apiUrl = '',
+    tours,
+    locale: localeOption,
+    visitor,
+    visitorId,
+    tourId: pinnedTourId,
+    autoStart = true,
+    controller: tourController,
+}) => {
     const [isOpen, setIsOpen] = useState(true);
     const [currentStepIndex, setCurrentStepIndex] = useState(0);
-    const [isVisible, setIsVisible] = useState(true);
-    const [analyticsId, setAnalyticsId] = useState<string | null>(null);
+    const [isVisible, setIsVisible] = useState(false);
+    // Session to rate once the tour has ended, when the tour asks for feedback
+    const [feedbackSessionId, setFeedbackSessionId] = useState<string | null>(null);
+    const [sessionId, setSessionId] = useState<string | null>(null);
+    const [loadedTours, setLoadedTours] = useState<TourConfig[]>([]);
+    const [visit] = useState(recordVisit);
+    // Tour the host asked for with `controller.start(tourId)`
+    const [requestedTourId, setRequestedTourId] = useState<string | null>(null);
+    // A `start` or `goTo` waiting for its tour to load
+    const [startRequest, setStartRequest] = useState<{ tourId?: string; step?: number | string } | null>(null);
 
-    // Default steps if none provided
-    const steps = tours?.steps || [
-        { title: 'Welcome', content: 'Welcome to our platform! Le me show you around.', id: '1' },
-        { title: 'Features', content: 'Here are the key features you can use.', id: '2' },
-        { title: 'Dashboard', content: 'Track your progress in the dashboard.', id: '3' },
-        { title: 'Settings', content: 'Configure your account settings here.', id: '4' },
-        { title: 'Get Started', content: 'You are all set! Click here to begin.', id: '5' },
-    ];
+    const locale = resolveLocale(localeOption);
+    const strings = getUiStrings(locale);
 
+    // A tour the host requested wins regardless of its audience. Otherwise a
+    // tour the visitor is part-way through wins over a fresh one, which must
+    // match the visitor's audience. `visitor` is compared by value.
+    const visitorKey = JSON.stringify(visitor ?? {});
+    const tour = useMemo(() => {
+        const candidates = tours ? [tours] : apiKey ? loadedTours : [DEMO_TOUR];
+        if (requestedTourId) return candidates.find((t) => t.id === requestedTourId) ?? null;
+        const pool = pinnedTourId ? candidates.filter((t) => t.id === pinnedTourId) : candidates;
+        return (
+            pool.find((t) => loadProgress(t)) ??
+            pool.find((t) => isTourEligible(t, { locale, visitor, visit })) ??
+            null
+        );
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [tours, apiKey, loadedTours, locale, visitorKey, visit, requestedTourId, pinnedTourId]);
+    const tourKey = tour?.id || 'demo_tour';
+    const steps = useMemo(() => (tour?.steps ?? []).map((step) => localizeStep(step, locale)), [tour, locale]);
     const currentStep = steps[currentStepIndex];
 
-    // Load progress from local storage
+    // Steps bound to another page wait, hidden, until the visitor navigates there
+    const href = useLocationHref();
+    const isStepActive = isVisible && (!currentStep?.pageUrl || matchesPage(currentStep.pageUrl, href));
+
+    // Index of the step whose `waitForElement` has resolved (or timed out)
+    const [readyStepIndex, setReadyStepIndex] = useState<number | null>(null);
+    // Index of a step whose interaction element is missing, so Next is allowed
+    const [interactionFallbackIndex, setInteractionFallbackIndex] = useState<number | null>(null);
+    const isStepReady = readyStepIndex === currentStepIndex;
+    const interactionSelector = currentStep?.requireInteraction
+        ? currentStep.interactionElement ?? currentStep.targetElement
+        : undefined;
+    const awaitingInteraction = !!interactionSelector && interactionFallbackIndex !== currentStepIndex;
+
+    const { mode, palette } = useTourPalette(tour);
+    const themeStyle = useMemo(() => paletteToVars(palette), [palette]);
+
+    // Step custom CSS, rewritten so it only applies inside this step's card
+    const stepScope = currentStep ? `[data-tour-step="${CSS.escape(currentStep.id)}"]` : '';
+    const scopedCss = useMemo(
+        () => (currentStep?.customCSS ? scopeCss(currentStep.customCSS, stepScope) : ''),
+        [currentStep?.customCSS, stepScope]
+    );
+
+    const cardRef = useRef<HTMLDivElement>(null);
+    const cardId = useId();
+    const reduceMotion = usePrefersReducedMotion();
+    const showCard = !!currentStep && isOpen && isStepActive && isStepReady;
+    // Interaction steps leave Tab free so the visitor can reach the page
+    useFocusTrap(cardRef, showCard, { contain: !awaitingInteraction, focusKey: currentStepIndex });
+    const targetRect = useTargetRect(isStepActive && isStepReady ? currentStep?.targetElement : undefined);
+    const cardSize = useElementSize(cardRef, isStepActive && isOpen && isStepReady && !!targetRect);
+
+    const track = (payload: Record<string, unknown>, signal?: AbortSignal) =>
+        postEvent({ apiKey, apiUrl }, payload, signal);
+
+    // When the current step was shown, for `timeOnStep`
+    const stepShownAt = useRef<number | null>(null);
+
+    // Report an event for the current step
+    const trackStepEvent = (eventType: StepEventType, metadata?: StepEventMetadata) => {
+        if (!sessionId || !currentStep) return;
+        track({
+            type: 'step',
+            sessionId,
+            stepId: currentStep.id,
+            stepOrder: currentStepIndex + 1,
+            eventType,
+            timeOnStep: stepShownAt.current === null ? undefined : Date.now() - stepShownAt.current,
+            metadata,
+        }).catch(() => {});
+    };
+
+    // Report a custom event, e.g. media playback, for the session
+    const trackCustomEvent = (eventName: string, eventData?: unknown) => {
+        if (!sessionId) return;
+        track({ type: 'custom', sessionId, eventName, eventData }).catch(() => {});
+    };
+
+    // Load the published tours for this page unless one was passed in. A
+    // requested tour is loaded even if it targets another page.
     useEffect(() => {
-        const savedStep = localStorage.getItem('tour-step');
-        if (savedStep) {
-            const id = setTimeout(() => setCurrentStepIndex(parseInt(savedStep, 10)), 0);
-            return () => clearTimeout(id);
+        if (tours || !apiKey) return;
+        const controller = new AbortController();
+        const inProgress = listInProgressTourIds();
+        fetchTours(
+            { apiKey, apiUrl },
+            {
+                pageUrl: location.href,
+                resumeTourIds:
+                    requestedTourId && !inProgress.includes(requestedTourId)
+                        ? [...inProgress, requestedTourId]
+                        : inProgress,
+                locale,
+                visitorId: visitorId ?? getVisitorId(),
+                browserSessionId: getBrowserSessionId(),
+            },
+            controller.signal
+        )
+            .then((matching) => setLoadedTours(matching.filter((t) => t.steps.length > 0)))
+            .catch((error) => {
+                if (!controller.signal.aborted) tourController?.emit('error', { error: toError(error) });
+            });
+        return () => controller.abort();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [tours, apiKey, apiUrl, locale, requestedTourId, visitorId]);
+
+    // Resume a tour in progress, or show it once its trigger fires
+    useEffect(() => {
+        if (!tour || tour.steps.length === 0) return;
+        const progress = loadProgress(tour);
+        if (progress) {
+            setCurrentStepIndex(progress.stepIndex);
+            setSessionId(progress.sessionId ?? null);
+            setIsVisible(true);
+            return;
+        }
+        if (tour.autoStart === false || !autoStart) return;
+        return onTourTrigger(tour, () => setIsVisible(true));
+    }, [tour, autoStart]);
+
+    // Show the tour a `start` or `goTo` asked for once it has loaded
+    useEffect(() => {
+        if (!startRequest || !tour) return;
+        if (startRequest.tourId && tour.id !== startRequest.tourId) return;
+        const { step } = startRequest;
+        const index = typeof step === 'string' ? tour.steps.findIndex((s) => s.id === step) : step ?? 0;
+        setStartRequest(null);
+        if (index < 0 || index >= tour.steps.length) return;
+        if (!isVisible) {
+            setSessionId(null);
+            setFeedbackSessionId(null);
+            setIsVisible(true);
         }
-    }, []);
+        setCurrentStepIndex(index);
+        setIsOpen(true);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [startRequest, tour]);
 
+    // Start a session, unless one is being resumed from an earlier page
     useEffect(() => {
-        const userRaw = localStorage.getItem('user');
-        const user = userRaw ? JSON.parse(userRaw) : null;
-        const tourId = tours?.id || 'demo_tour';
+        if (!isVisible || !tour || sessionId) return;
+        const tourId = tour.id || 'demo_tour';
         const controller = new AbortController();
         const start = async () => {
+            let startedSessionId: string | undefined;
             try {
-                const res = await fetch('/api/analytics', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ type: 'start', tourId, userId: user?.id }),
-                    signal: controller.signal,
-                });
+                const res = await track(
+                    {
+                        type: 'start',
+                        tourId,
+                        pageUrl: location.href,
+                        pageTitle: document.title,
+                        referrer: document.referrer || undefined,
+                        screenResolution: `${screen.width}x${screen.height}`,
+                        totalSteps: steps.length,
+                        variantId: tour.variantId,
+                        tourVersion: tour.version,
+                        visitorId,
+                    },
+                    controller.signal
+                );
                 const data = await res.json();
-                if (data?.analyticsId) setAnalyticsId(String(data.analyticsId));
-            } catch {}
-            onStart?.(tourId, user?.id);
+                if (!res.ok) throw new Error(data?.error ?? `Failed to start session (${res.status})`);
+                if (data?.sessionId) {
+                    startedSessionId = String(data.sessionId);
+                    setSessionId(startedSessionId);
+                }
+            } catch (error) {
+                if (controller.signal.aborted) return;
+                // The tour still runs, just without analytics; the demo tour never has any
+                if (apiKey) tourController?.emit('error', { error: toError(error), tourId });
+            }
+            tourController?.emit('start', { tourId, sessionId: startedSessionId, visitorId });
         };
         start();
         return () => controller.abort();
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, []);
+    }, [isVisible, tour]);
+
+    // Record conversion goals the host page reports against this session
+    useEffect(() => {
+        if (!sessionId) return;
+        const onGoal = (event: Event) => {
+            const detail = (event as CustomEvent<{ name?: unknown; data?: unknown }>).detail;
+            if (typeof detail?.name === 'string') trackCustomEvent(detail.name, detail.data);
+        };
+        window.addEventListener(GOAL_EVENT, onGoal);
+        return () => window.removeEventListener(GOAL_EVENT, onGoal);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [sessionId]);
+
+    // Hold the step back until its `waitForElement` has rendered
+    useEffect(() => {
+        if (!isStepActive || !currentStep) return;
+        const selector = currentStep.waitForElement;
+        if (!selector) {
+            setReadyStepIndex(currentStepIndex);
+            return;
+        }
+        const controller = new AbortController();
+        waitForElement(selector, currentStep.waitTimeout ?? 5000, controller.signal).then((element) => {
+            if (controller.signal.aborted) return;
+            if (!element) {
+                trackStepEvent('timeout', {
+                    elementFound: false,
+                    errorMessage: `Timed out waiting for ${selector}`,
+                });
+            }
+            // Show the step either way; it falls back to the unanchored card
+            setReadyStepIndex(currentStepIndex);
+        });
+        return () => controller.abort();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isStepActive, currentStepIndex, currentStep?.waitForElement]);
+
+    // Report each step as viewed once it is shown
+    useEffect(() => {
+        if (!isStepActive || !isStepReady) return;
+        stepShownAt.current = Date.now();
+        trackStepEvent('step_viewed');
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isStepActive, isStepReady, currentStepIndex, sessionId]);
+
+    useEffect(() => {
+        if (!isStepActive || !isStepReady || !currentStep) return;
+        tourController?.emit('stepView', { tourId: tourKey, stepId: currentStep.id, stepIndex: currentStepIndex });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isStepActive, isStepReady, currentStepIndex, tourKey]);
+
+    // Report steps whose target is missing once they are shown
+    useEffect(() => {
+        if (!isStepActive || !isStepReady || !currentStep?.targetElement) return;
+        if (!queryTarget(currentStep.targetElement)) {
+            trackStepEvent('element_not_found', {
+                elementFound: false,
+                errorMessage: `No element matches ${currentStep.targetElement}`,
+            });
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isStepActive, isStepReady, currentStepIndex]);
+
+    // Advance steps that require interaction once the visitor interacts
+    const handleNextRef = useRef<() => void>(() => {});
+    useEffect(() => {
+        if (!isStepActive || !isStepReady || !interactionSelector) return;
+        if (!queryTarget(interactionSelector)) {
+            trackStepEvent('interaction_failed', {
+                elementFound: false,
+                interactionSuccess: false,
+                errorMessage: `No element matches ${interactionSelector}`,
+            });
+            // Never strand the visitor on a step they cannot complete
+            setInteractionFallbackIndex(currentStepIndex);
+            return;
+        }
+        return onInteraction(interactionSelector, () => {
+            trackStepEvent('interaction_completed', { elementFound: true, interactionSuccess: true });
+            handleNextRef.current();
+        });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isStepActive, isStepReady, currentStepIndex, interactionSelector]);
 
     // Save progress
     useEffect(() => {
-        localStorage.setItem('tour-step', currentStepIndex.toString());
-    }, [currentStepIndex]);
+        if (!isVisible || !tour) return;
+        saveProgress(tour, currentStepIndex, sessionId);
+    }, [tour, currentStepIndex, isVisible, sessionId]);
 
     const handleNext = () => {
+        trackStepEvent('step_completed');
+        tourController?.emit('stepComplete', { tourId: tourKey, stepId: currentStep.id, stepIndex: currentStepIndex });
         if (currentStepIndex < steps.length - 1) {
             setCurrentStepIndex(currentStepIndex + 1);
-            if (analyticsId) {
-                const controller = new AbortController();
-                fetch('/api/analytics', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ type: 'step', analyticsId, stepId: currentStep.id }),
-                    signal: controller.signal,
-                }).catch(() => {});
-            }
-            onStepComplete?.(currentStep.id);
         } else {
             handleComplete();
         }
     };
 
+    handleNextRef.current = handleNext;
+
     const handleBack = () => {
         if (currentStepIndex > 0) {
+            trackStepEvent('step_back');
             setCurrentStepIndex(currentStepIndex - 1);
         }
     };
 
     const handleSkip = () => {
+        trackStepEvent('step_skipped');
         setIsVisible(false);
-        localStorage.removeItem('tour-step');
-        if (analyticsId) {
-            const controller = new AbortController();
-            fetch('/api/analytics', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ type: 'abandon', analyticsId }),
-                signal: controller.signal,
-            }).catch(() => {});
+        if (tour) {
+            clearProgress(tour);
+            saveOutcome(tour, 'dismissed');
         }
-        onAbandon?.();
+        if (sessionId) {
+            track({ type: 'abandon', sessionId }).catch(() => {});
+            if (tour?.feedbackPrompt?.onSkip) setFeedbackSessionId(sessionId);
+        }
+        tourController?.emit('abandon', { tourId: tourKey, stepId: currentStep?.id });
     };
 
     const handleComplete = () => {
         setIsVisible(false);
-        localStorage.removeItem('tour-step');
-        if (analyticsId) {
-            const controller = new AbortController();
-            fetch('/api/analytics', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ type: 'complete', analyticsId }),
-                signal: controller.signal,
-            }).catch(() => {});
+        if (tour) {
+            clearProgress(tour);
+            saveOutcome(tour, 'completed');
+        }
+        if (sessionId) {
+            track({ type: 'complete', sessionId }).catch(() => {});
+            if (tour?.feedbackPrompt?.onComplete) setFeedbackSessionId(sessionId);
+        }
+        tourController?.emit('complete', { tourId: tourKey });
+    };
+
+    // End the tour for the host page; unlike skipping, it isn't remembered as dismissed
+    const handleStop = () => {
+        if (!isVisible) return;
+        setIsVisible(false);
+        if (tour) clearProgress(tour);
+        if (sessionId) track({ type: 'abandon', sessionId }).catch(() => {});
+        setSessionId(null);
+        tourController?.emit('abandon', { tourId: tourKey, stepId: currentStep?.id });
+    };
+
+    const handleCommand = (command: WidgetCommand) => {
+        switch (command.type) {
+            case 'start':
+                // Another tour replaces the one showing
+                if (command.tourId && command.tourId !== tour?.id) handleStop();
+                if (command.tourId) setRequestedTourId(command.tourId);
+                setStartRequest({ tourId: command.tourId });
+                break;
+            case 'stop':
+                setStartRequest(null);
+                handleStop();
+                break;
+            case 'goTo':
+                setStartRequest({ tourId: tour?.id, step: command.step });
+                break;
         }
-        onCompleteCb?.();
     };
 
-    if (!isVisible) return null;
+    const handleCommandRef = useRef(handleCommand);
+    handleCommandRef.current = handleCommand;
+    useEffect(() => tourController?.connect((command) => handleCommandRef.current(command)), [tourController]);
 
-    return (
-        <div className="fixed bottom-10 right-10 z-50 flex flex-col items-end gap-4 pointer-events-none">
-
-            {/* 3D Avatar */}
-            <div className="w-24 h-24 pointer-events-auto cursor-pointer" onClick={() => setIsOpen(!isOpen)}>
-                <Canvas>
-                    <ambientLight intensity={0.5} />
-                    <directionalLight position={[10, 10, 5]} intensity={1} />
-                    <Avatar />
-                    <OrbitControls enableZoom={false} autoRotate />
-                </Canvas>
+    const dir = isRtl(locale) ? 'rtl' : 'ltr';
+
+    if (feedbackSessionId) {
+        const submitFeedback = (feedback: FeedbackInput) => {
+            track({ type: 'feedback', sessionId: feedbackSessionId, ...feedback }).catch(() => {});
+        };
+        return (
+            <div data-tour-theme={mode} style={themeStyle}>
+                <div className="fixed bottom-10 right-10 z-50">
+                    <FeedbackPrompt
+                        question={tour?.feedbackPrompt?.question}
+                        strings={strings}
+                        lang={locale}
+                        dir={dir}
+                        reducedMotion={reduceMotion}
+                        onSubmit={submitFeedback}
+                        onClose={() => setFeedbackSessionId(null)}
+                    />
+                </div>
             </div>
+        );
+    }
 
-            {/* Popover Card */}
-            <AnimatePresence>
-                {isOpen && (
-                    <motion.div
-                        initial={{ opacity: 0, y: 20, scale: 0.9 }}
-                        animate={{ opacity: 1, y: 0, scale: 1 }}
-                        exit={{ opacity: 0, y: 20, scale: 0.9 }}
-                        className="bg-white p-6 rounded-xl shadow-2xl w-80 pointer-events-auto border border-indigo-100"
-                    >
-                        <div className="flex justify-between items-center mb-2">
-                            <h3 className="font-bold text-lg text-gray-800">{currentStep.title}</h3>
-                            <button onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-gray-600">
-                                ×
-                            </button>
-                        </div>
+    if (!isVisible || !currentStep) return null;
+
+    const isCentered = currentStep.position === 'center';
+
+    // Step avatar settings override the tour's
+    const avatarConfig = currentStep.avatarConfig;
+    const showAvatar = tour?.enableAvatar !== false && avatarConfig?.enabled !== false;
+    const avatarLayout = AVATAR_LAYOUT[avatarConfig?.position ?? 'top'];
+
+    // Closing keeps the tour reachable from the avatar; without one it ends the tour
+    const handleDismiss = () => (showAvatar ? setIsOpen(false) : handleSkip());
 
-                        <p className="text-gray-600 mb-4 text-sm leading-relaxed">
-                            {currentStep.content}
+    // Arrow keys follow the reading direction
+    const [backKey, forwardKey] = dir === 'rtl' ? ['ArrowRight', 'ArrowLeft'] : ['ArrowLeft', 'ArrowRight'];
+
+    const handleCardKeyDown = (event: React.KeyboardEvent) => {
+        // Leave arrow keys to media players and form fields in the content
+        const target = event.target as HTMLElement;
+        const ownsArrows = target.matches('input, textarea, select, video, [contenteditable]');
+
+        if (event.key === 'Escape') {
+            event.stopPropagation();
+            handleDismiss();
+        } else if (event.key === forwardKey && !ownsArrows && !awaitingInteraction) {
+            event.preventDefault();
+            handleNext();
+        } else if (event.key === backKey && !ownsArrows && currentStepIndex > 0) {
+            event.preventDefault();
+            handleBack();
+        }
+    };
+
+    const anchorStyle: React.CSSProperties | undefined =
+        targetRect && !isCentered
+            ? cardSize
+                ? computeCardPosition({
+                      target: targetRect,
+                      card: cardSize,
+                      viewport: { width: window.innerWidth, height: window.innerHeight },
+                      position: currentStep.position,
+                      offset: currentStep.offset,
+                  })
+                : { top: 0, left: 0, visibility: 'hidden' }
+            : undefined;
+    const spotlight =
+        targetRect && currentStep.highlightElement !== false
+            ? padRect(targetRect, currentStep.highlightPadding ?? 8)
+            : null;
+
+    const card = (
+        <AnimatePresence>
+            {showCard && (
+                <motion.div
+                    ref={cardRef}
+                    role="dialog"
+                    aria-modal={!awaitingInteraction}
+                    aria-labelledby={`${cardId}-title`}
+                    aria-describedby={`${cardId}-content`}
+                    tabIndex={-1}
+                    lang={locale}
+                    dir={dir}
+                    onKeyDown={handleCardKeyDown}
+                    initial={{ opacity: 0, y: 20, scale: 0.9 }}
+                    animate={{ opacity: 1, y: 0, scale: 1 }}
+                    exit={{ opacity: 0, y: 20, scale: 0.9 }}
+                    transition={reduceMotion ? { duration: 0 } : undefined}
+                    data-tour-step={currentStep.id}
+                    className="bg-tour-surface p-6 rounded-xl shadow-2xl w-80 pointer-events-auto border border-tour-primary-soft outline-none"
+                >
+                    {scopedCss && <style>{scopedCss}</style>}
+
+                    <div className="flex justify-between items-center mb-2">
+                        <h3 id={`${cardId}-title`} lang={currentStep.locale} dir="auto" className="font-bold text-lg text-tour-text">{currentStep.title}</h3>
+                        <button
+                            onClick={handleDismiss}
+                            aria-label={showAvatar ? strings.closeTour : strings.endTour}
+                            className="text-tour-muted hover:text-tour-text"
+                        >
+                            ×
+                        </button>
+                    </div>
+
+                    <StepMedia step={currentStep} onPlayback={trackCustomEvent} />
+
+                    <StepContent
+                        id={`${cardId}-content`}
+                        lang={currentStep.locale}
+                        dir="auto"
+                        content={currentStep.content}
+                        contentType={currentStep.contentType}
+                        className="text-tour-muted mb-4 text-sm leading-relaxed"
+                    />
+
+                    {awaitingInteraction && (
+                        <p className="text-xs text-tour-primary mb-2">
+                            {strings.tryIt}
                         </p>
+                    )}
 
-                        <div className="flex items-center justify-between mt-4">
-                            <div className="flex gap-1">
-                                {steps.map((_, idx) => (
-                                    <div
-                                        key={idx}
-                                        className={`h-1.5 w-1.5 rounded-full ${idx === currentStepIndex ? 'bg-indigo-600' : 'bg-gray-200'}`}
-                                    />
-                                ))}
-                            </div>
-                            <span className="text-xs text-gray-400">
-                                {currentStepIndex + 1} / {steps.length}
-                            </span>
+                    <div className="flex items-center justify-between mt-4">
+                        <div className="flex gap-1" aria-hidden="true">
+                            {steps.map((_, idx) => (
+                                <div
+                                    key={idx}
+                                    className={`h-1.5 w-1.5 rounded-full ${idx === currentStepIndex ? 'bg-tour-primary' : 'bg-tour-border'}`}
+                                />
+                            ))}
                         </div>
+                        <span className="text-xs text-tour-muted">
+                            {currentStepIndex + 1} / {steps.length}
+                        </span>
+                    </div>
+
+                    <div className="flex justify-between mt-6 pt-4 border-t border-tour-border">
+                        <button
+                            onClick={handleSkip}
+                            className="text-xs text-tour-muted hover:text-tour-text font-medium"
+                        >
+                            {strings.skip}
+                        </button>
 
-                        <div className="flex justify-between mt-6 pt-4 border-t border-gray-100">
+                        <div className="flex gap-2">
                             <button
-                                onClick={handleSkip}
-                                className="text-xs text-gray-400 hover:text-gray-600 font-medium"
+                                onClick={handleBack}
+                                disabled={currentStepIndex === 0}
+                                className="px-3 py-1.5 text-xs font-medium text-tour-text bg-tour-subtle rounded-lg hover:bg-tour-subtle-hover disabled:opacity-50"
                             >
-                                Skip
+                                {strings.back}
+                            </button>
+                            <button
+                                onClick={handleNext}
+                                disabled={awaitingInteraction}
+                                className="px-3 py-1.5 text-xs font-medium text-tour-on-primary bg-tour-primary rounded-lg hover:bg-tour-primary-hover disabled:opacity-50"
+                            >
+                                {currentStep.buttonText ??
+                                    (currentStepIndex === steps.length - 1 ? strings.finish : strings.next)}
                             </button>
-
-                            <div className="flex gap-2">
-                                <button
-                                    onClick={handleBack}
-                                    disabled={currentStepIndex === 0}
-                                    className="px-3 py-1.5 text-xs font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
-                                >
-                                    Back
-                                </button>
-                                <button
-                                    onClick={handleNext}
-                                    className="px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700"
-                                >
-                                    {currentStepIndex === steps.length - 1 ? 'Finish' : 'Next'}
-                                </button>
-                            </div>
                         </div>
-                    </motion.div>
+                    </div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+
+    return (
+        <div data-tour-theme={mode} style={themeStyle}>
+            {/* Announces each step to screen readers */}
+            <div role="status" aria-live="polite" className="sr-only">
+                {showCard ? strings.stepStatus(currentStepIndex + 1, steps.length, currentStep.title) : ''}
+            </div>
+
+            {/* Dimmed overlay with a cutout around the target */}
+            {spotlight && showCard && (
+                <div
+                    aria-hidden="true"
+                    className="fixed z-40 rounded-lg pointer-events-none transition-all duration-200 motion-reduce:transition-none"
+                    style={{
+                        top: spotlight.top,
+                        left: spotlight.left,
+                        width: spotlight.width,
+                        height: spotlight.height,
+                        boxShadow: `0 0 0 9999px ${palette.overlay}`,
+                    }}
+                />
+            )}
+
+            {/* Popover Card anchored to the target, or centered */}
+            {anchorStyle && (
+                <div className="fixed z-50" style={anchorStyle}>
+                    {card}
+                </div>
+            )}
+            {isCentered && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center pointer-events-none">
+                    {card}
+                </div>
+            )}
+
+            <div className={`fixed bottom-10 right-10 z-50 flex gap-4 pointer-events-none ${avatarLayout.className}`}>
+
+                {/* Avatar; clicking it hides and reopens the card */}
+                {showAvatar && (
+                    <button
+                        type="button"
+                        aria-label={isOpen ? strings.hideTour : strings.showTour}
+                        aria-expanded={isOpen}
+                        className="w-24 h-24 shrink-0 pointer-events-auto cursor-pointer rounded-full"
+                        onClick={() => setIsOpen(!isOpen)}
+                    >
+                        <Avatar
+                            type={avatarConfig?.avatarType ?? tour?.avatarType}
+                            modelUrl={avatarConfig?.modelUrl ?? tour?.avatarModelUrl}
+                            animation={avatarConfig?.animation}
+                            color={palette.primary}
+                            webGL={tour?.enableWebGL !== false}
+                            cue={currentStepIndex}
+                            direction={avatarLayout.direction}
+                            reducedMotion={reduceMotion}
+                        />
+                    </button>
                 )}
-            </AnimatePresence>
+
+                {/* Popover Card next to the avatar when there is no target */}
+                {!anchorStyle && !isCentered && card}
+            </div>
         </div>
     );
 };
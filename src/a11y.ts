@@ -0,0 +1,66 @@
+import { useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+
+// Focus management for the step card dialog.
+
+const FOCUSABLE = [
+    'a[href]',
+    'button:not([disabled])',
+    'input:not([disabled])',
+    'select:not([disabled])',
+    'textarea:not([disabled])',
+    'iframe',
+    'video[controls]',
+    '[tabindex]:not([tabindex="-1"])',
+].join(', ');
+
+// The focused element, looking inside shadow roots such as the widget's own
+const deepActiveElement = () => {
+    let element = document.activeElement;
+    while (element?.shadowRoot?.activeElement) element = element.shadowRoot.activeElement;
+    return element as HTMLElement | null;
+};
+
+const focusableIn = (container: HTMLElement) =>
+    Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter((el) => el.getClientRects().length > 0);
+
+// While `active`, move focus to `ref` and, when `contain` is set, keep Tab
+// cycling inside it; focus goes back to where it was once released. A new
+// `focusKey`, e.g. the step index, moves focus to the container again.
+export const useFocusTrap = (
+    ref: RefObject<HTMLElement>,
+    active: boolean,
+    { contain = true, focusKey }: { contain?: boolean; focusKey?: unknown } = {}
+) => {
+    const containRef = useRef(contain);
+    containRef.current = contain;
+
+    useEffect(() => {
+        const container = ref.current;
+        if (!active || !container) return;
+
+        const previous = deepActiveElement();
+        if (!container.contains(previous)) container.focus({ preventScroll: true });
+
+        const onKeyDown = (event: KeyboardEvent) => {
+            if (event.key !== 'Tab' || !containRef.current) return;
+            const items = focusableIn(container);
+            const current = deepActiveElement();
+            if (items.length === 0) {
+                event.preventDefault();
+            } else if (event.shiftKey && (current === items[0] || current === container)) {
+                event.preventDefault();
+                items[items.length - 1].focus();
+            } else if (!event.shiftKey && current === items[items.length - 1]) {
+                event.preventDefault();
+                items[0].focus();
+            }
+        };
+
+        container.addEventListener('keydown', onKeyDown);
+        return () => {
+            container.removeEventListener('keydown', onKeyDown);
+            if (previous?.isConnected && previous !== document.body) previous.focus({ preventScroll: true });
+        };
+    }, [ref, active, focusKey]);
+};
@@ -0,0 +1,78 @@
+import type { TourConfig } from './types';
+
+// Thin client for the backend's public HTTP endpoints. Every call is
+// authenticated with the owner's public `pk_live_` key.
+
+export interface ApiOptions {
+    apiKey?: string;
+    apiUrl?: string; // base URL of the backend HTTP endpoints
+}
+
+export type StepEventType =
+    | 'step_viewed'
+    | 'step_started'
+    | 'step_completed'
+    | 'step_skipped'
+    | 'step_back'
+    | 'interaction_completed'
+    | 'interaction_failed'
+    | 'element_not_found'
+    | 'timeout';
+
+export interface StepEventMetadata {
+    elementFound?: boolean;
+    interactionSuccess?: boolean;
+    errorMessage?: string;
+    customData?: unknown;
+}
+
+export interface TourQuery {
+    pageUrl: string;
+    resumeTourIds?: string[]; // tours to return even if they target another page
+    locale?: string;
+    // A/B assignment units, see convex/lib/experiments.ts
+    visitorId?: string;
+    browserSessionId?: string;
+}
+
+const authHeaders = (apiKey?: string): Record<string, string> =>
+    apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+// Published tours whose target URL matches the given page, plus the tours
+// being resumed from another page
+export const fetchTours = async (
+    { apiKey, apiUrl = '' }: ApiOptions,
+    { pageUrl, resumeTourIds = [], locale, visitorId, browserSessionId }: TourQuery,
+    signal?: AbortSignal
+): Promise<TourConfig[]> => {
+    const params = new URLSearchParams({ url: pageUrl });
+    if (resumeTourIds.length > 0) params.set('resume', resumeTourIds.join(','));
+    if (locale) params.set('locale', locale);
+    if (visitorId) params.set('visitor', visitorId);
+    if (browserSessionId) params.set('browserSession', browserSessionId);
+    const res = await fetch(`${apiUrl}/api/tours?${params}`, {
+        headers: authHeaders(apiKey),
+        signal,
+    });
+    if (!res.ok) throw new Error(`Failed to load tours (${res.status})`);
+    const data = await res.json();
+    return Array.isArray(data?.tours) ? data.tours : [];
+};
+
+// Post a telemetry event to the ingestion endpoint
+export const track = (
+    { apiKey, apiUrl = '' }: ApiOptions,
+    payload: Record<string, unknown>,
+    signal?: AbortSignal
+) => {
+    return fetch(`${apiUrl}/api/analytics`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...authHeaders(apiKey),
+        },
+        body: JSON.stringify(payload),
+        keepalive: true,
+        signal,
+    });
+};
@@ -0,0 +1,167 @@
+import React, { Component, Suspense, lazy } from 'react';
+import type { ReactNode } from 'react';
+import { motion } from 'framer-motion';
+import type { TargetAndTransition } from 'framer-motion';
+import type { AvatarDirection } from './avatarScene';
+import type { AvatarAnimation, AvatarType } from './types';
+
+// Tour guide avatar: a WebGL preset (robot, human or a custom glTF model) or,
+// when WebGL is off or unavailable, a static 2D badge. Each avatar plays a
+// named animation once per `cue`, then settles back to idle. The WebGL scene
+// and three.js are loaded on first use; the 2D badge shows until then.
+
+export type { AvatarDirection } from './avatarScene';
+
+interface AvatarProps {
+    type?: AvatarType; // unset renders the original orb
+    modelUrl?: string;
+    animation?: AvatarAnimation;
+    color: string;
+    webGL?: boolean;
+    cue?: string | number; // replays the animation whenever it changes, e.g. the step index
+    direction?: AvatarDirection;
+    reducedMotion?: boolean; // hold a still pose and skip auto-rotation
+}
+
+// Built next to the standalone bundle by vite.config.ts
+const AVATAR_SCENE_FILE = 'tour-widget-avatar.iife.js';
+
+type AvatarSceneModule = typeof import('./avatarScene');
+
+// Where the standalone bundle was loaded from; standalone.ts sets it while
+// the bundle first runs, the only time `document.currentScript` points at it
+let bundleUrl: string | undefined;
+
+export const setBundleUrl = (url: string) => {
+    bundleUrl = url;
+};
+
+// The standalone build is a single IIFE, which can't split chunks, so the
+// scene is a second script that exposes itself as `TourWidgetAvatarScene`
+const loadSceneScript = () =>
+    new Promise<AvatarSceneModule>((resolve, reject) => {
+        const script = document.createElement('script');
+        script.src = new URL(AVATAR_SCENE_FILE, bundleUrl ?? location.href).href;
+        script.async = true;
+        script.onload = () => {
+            const scene = (window as { TourWidgetAvatarScene?: AvatarSceneModule }).TourWidgetAvatarScene;
+            if (scene) resolve(scene);
+            else reject(new Error(`${AVATAR_SCENE_FILE} did not load the avatar scene`));
+        };
+        script.onerror = () => reject(new Error(`Failed to load ${script.src}`));
+        document.head.appendChild(script);
+    });
+
+const AvatarScene = lazy(() =>
+    (import.meta.env.MODE === 'standalone' ? loadSceneScript() : import('./avatarScene')).then((scene) => ({
+        default: scene.AvatarScene,
+    }))
+);
+
+let webGLSupport: boolean | undefined;
+
+// Whether the browser can create a WebGL context, probed once
+export const supportsWebGL = () => {
+    if (webGLSupport === undefined) {
+        try {
+            const canvas = document.createElement('canvas');
+            webGLSupport = !!(canvas.getContext('webgl2') ?? canvas.getContext('webgl'));
+        } catch {
+            webGLSupport = false;
+        }
+    }
+    return webGLSupport;
+};
+
+// 2D gestures matching the 3D ones
+const flatMotion = (animation: AvatarAnimation, direction: AvatarDirection): TargetAndTransition => {
+    switch (animation) {
+        case 'wave':
+            return { rotate: [0, 14, -10, 14, -6, 0], transition: { duration: 1.4 } };
+        case 'nod':
+            return { y: [0, 5, 0, 5, 0], transition: { duration: 1.2 } };
+        case 'point':
+            return { x: [0, 8 * direction, 0, 8 * direction, 0], y: direction === 0 ? [0, 6, 0, 6, 0] : 0, transition: { duration: 1.4 } };
+        case 'celebrate':
+            return { y: [0, -14, 0, -10, 0], scale: [1, 1.12, 1, 1.08, 1], transition: { duration: 1.2 } };
+        case 'idle':
+            return { y: [0, -3, 0], transition: { duration: 3, repeat: Infinity } };
+    }
+};
+
+const FlatFace = ({ type, color }: { type?: AvatarType; color: string }) => {
+    if (type === 'human') {
+        return (
+            <svg viewBox="0 0 64 64" className="w-full h-full" aria-hidden="true">
+                <path d="M10 64a22 18 0 0 1 44 0z" fill={color} />
+                <circle cx="32" cy="26" r="16" fill="#f1c27d" />
+                <circle cx="26" cy="25" r="2" fill="#1f2937" />
+                <circle cx="38" cy="25" r="2" fill="#1f2937" />
+                <path d="M26 32q6 5 12 0" stroke="#1f2937" strokeWidth="2" fill="none" strokeLinecap="round" />
+            </svg>
+        );
+    }
+    if (type === 'robot' || type === 'custom') {
+        return (
+            <svg viewBox="0 0 64 64" className="w-full h-full" aria-hidden="true">
+                <line x1="32" y1="6" x2="32" y2="16" stroke="#9ca3af" strokeWidth="3" />
+                <circle cx="32" cy="6" r="4" fill={color} />
+                <rect x="10" y="16" width="44" height="38" rx="10" fill={color} />
+                <circle cx="24" cy="34" r="5" fill="#ffffff" />
+                <circle cx="40" cy="34" r="5" fill="#ffffff" />
+            </svg>
+        );
+    }
+    return (
+        <svg viewBox="0 0 64 64" className="w-full h-full" aria-hidden="true">
+            <circle cx="32" cy="32" r="24" fill={color} />
+            <circle cx="25" cy="25" r="8" fill="#ffffff" opacity="0.3" />
+        </svg>
+    );
+};
+
+const FlatAvatar = ({ type, color, animation = 'idle', cue, direction = 0, reducedMotion }: AvatarProps) => (
+    <motion.div
+        key={`${animation}:${cue}`}
+        className="w-full h-full p-3"
+        animate={reducedMotion ? undefined : flatMotion(animation, direction)}
+    >
+        <FlatFace type={type} color={color} />
+    </motion.div>
+);
+
+// Renders `fallback` if the canvas fails, e.g. a lost context or a model that won't load
+class AvatarErrorBoundary extends Component<{ fallback: ReactNode; children: ReactNode }, { failed: boolean }> {
+    state = { failed: false };
+
+    static getDerivedStateFromError() {
+        return { failed: true };
+    }
+
+    render() {
+        return this.state.failed ? this.props.fallback : this.props.children;
+    }
+}
+
+export const Avatar: React.FC<AvatarProps> = (props) => {
+    const { type, modelUrl, color, animation = 'idle', cue, direction = 0, webGL = true, reducedMotion = false } = props;
+    const flat = <FlatAvatar {...props} />;
+
+    if (!webGL || !supportsWebGL()) return flat;
+
+    return (
+        <AvatarErrorBoundary key={modelUrl} fallback={flat}>
+            <Suspense fallback={flat}>
+                <AvatarScene
+                    type={type}
+                    modelUrl={modelUrl}
+                    color={color}
+                    animation={animation}
+                    cue={cue}
+                    direction={direction}
+                    reducedMotion={reducedMotion}
+                />
+            </Suspense>
+        </AvatarErrorBoundary>
+    );
+};
@@ -0,0 +1,156 @@
+import React, { Suspense, useEffect, useRef } from 'react';
+import type { ReactNode } from 'react';
+import { Canvas, useFrame } from '@react-three/fiber';
+import { Center, MeshDistortMaterial, OrbitControls, Resize, RoundedBox, Sphere, useGLTF } from '@react-three/drei';
+import type { Group } from 'three';
+import type { AvatarAnimation, AvatarType } from './types';
+
+// The WebGL half of the avatar: three.js presets and custom glTF models. It
+// pulls in three.js, so avatar.tsx loads this module only when it's shown.
+
+// Which way a gesture points: toward a card on the right, left, or below
+export type AvatarDirection = 1 | -1 | 0;
+
+export interface AvatarSceneProps {
+    type?: AvatarType; // unset renders the original orb
+    modelUrl?: string;
+    animation: AvatarAnimation;
+    color: string;
+    cue?: string | number;
+    direction: AvatarDirection;
+    reducedMotion: boolean;
+}
+
+const GESTURE_SECONDS = 2.4;
+
+// Target rotation and height of the rig `t` seconds into an animation
+const pose = (animation: AvatarAnimation, t: number, direction: AvatarDirection) => {
+    switch (animation) {
+        case 'wave':
+            return { rotation: [0, 0, Math.sin(t * 8) * 0.3], y: 0 };
+        case 'nod':
+            return { rotation: [Math.sin(t * 7) * 0.3, 0, 0], y: 0 };
+        case 'point':
+            return { rotation: [direction === 0 ? 0.4 : 0, direction * 0.7, 0], y: Math.sin(t * 4) * 0.05 };
+        case 'celebrate':
+            return { rotation: [0, Math.sin(t * 5) * 0.5, 0], y: Math.abs(Math.sin(t * 7)) * 0.5 };
+        case 'idle':
+            return { rotation: [0, 0, 0], y: Math.sin(t * 2) * 0.06 };
+    }
+};
+
+// Eases the model toward the pose of the current animation
+const Rig: React.FC<{
+    animation: AvatarAnimation;
+    cue?: string | number;
+    direction: AvatarDirection;
+    still: boolean;
+    children: ReactNode;
+}> = ({ animation, cue, direction, still, children }) => {
+    const ref = useRef<Group>(null);
+    const startedAt = useRef<number | null>(null);
+
+    useEffect(() => {
+        startedAt.current = null;
+    }, [animation, cue]);
+
+    useFrame(({ clock }) => {
+        const rig = ref.current;
+        if (!rig || still) return;
+        startedAt.current ??= clock.elapsedTime;
+        const t = clock.elapsedTime - startedAt.current;
+        const target = pose(t < GESTURE_SECONDS ? animation : 'idle', t, direction);
+        const ease = 0.15;
+        rig.rotation.x += (target.rotation[0] - rig.rotation.x) * ease;
+        rig.rotation.y += (target.rotation[1] - rig.rotation.y) * ease;
+        rig.rotation.z += (target.rotation[2] - rig.rotation.z) * ease;
+        rig.position.y += (target.y - rig.position.y) * ease;
+    });
+
+    return <group ref={ref}>{children}</group>;
+};
+
+const Orb = ({ color }: { color: string }) => (
+    <Sphere args={[1, 32, 32]} scale={1.5}>
+        <MeshDistortMaterial color={color} attach="material" distort={0.5} speed={2} />
+    </Sphere>
+);
+
+const Robot = ({ color }: { color: string }) => (
+    <group position={[0, -0.2, 0]}>
+        <RoundedBox args={[1.8, 1.5, 1.3]} radius={0.3}>
+            <meshStandardMaterial color={color} />
+        </RoundedBox>
+        {[-0.4, 0.4].map((x) => (
+            <mesh key={x} position={[x, 0.1, 0.66]}>
+                <sphereGeometry args={[0.17, 16, 16]} />
+                <meshStandardMaterial color="#ffffff" emissive="#ffffff" emissiveIntensity={0.6} />
+            </mesh>
+        ))}
+        <mesh position={[0, 0.95, 0]}>
+            <cylinderGeometry args={[0.05, 0.05, 0.4]} />
+            <meshStandardMaterial color="#9ca3af" />
+        </mesh>
+        <mesh position={[0, 1.2, 0]}>
+            <sphereGeometry args={[0.14, 16, 16]} />
+            <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.5} />
+        </mesh>
+    </group>
+);
+
+const Human = ({ color }: { color: string }) => (
+    <group position={[0, -0.3, 0]}>
+        <mesh position={[0, 0.9, 0]}>
+            <sphereGeometry args={[0.75, 32, 32]} />
+            <meshStandardMaterial color="#f1c27d" />
+        </mesh>
+        {[-0.25, 0.25].map((x) => (
+            <mesh key={x} position={[x, 1, 0.66]}>
+                <sphereGeometry args={[0.09, 16, 16]} />
+                <meshStandardMaterial color="#1f2937" />
+            </mesh>
+        ))}
+        <mesh position={[0, -0.6, 0]}>
+            <capsuleGeometry args={[0.65, 0.5, 8, 16]} />
+            <meshStandardMaterial color={color} />
+        </mesh>
+    </group>
+);
+
+// Any glTF/GLB model, centered and scaled to fit the canvas
+const CustomModel = ({ url }: { url: string }) => {
+    const { scene } = useGLTF(url);
+    return (
+        <Center>
+            <Resize scale={2.6}>
+                <primitive object={scene} />
+            </Resize>
+        </Center>
+    );
+};
+
+const Model = ({ type, modelUrl, color }: Pick<AvatarSceneProps, 'type' | 'modelUrl' | 'color'>) => {
+    switch (type) {
+        case 'robot':
+            return <Robot color={color} />;
+        case 'human':
+            return <Human color={color} />;
+        case 'custom':
+            return modelUrl ? <CustomModel url={modelUrl} /> : <Robot color={color} />;
+        default:
+            return <Orb color={color} />;
+    }
+};
+
+export const AvatarScene: React.FC<AvatarSceneProps> = ({ type, modelUrl, color, animation, cue, direction, reducedMotion }) => (
+    <Canvas frameloop={reducedMotion ? 'demand' : 'always'}>
+        <ambientLight intensity={0.6} />
+        <directionalLight position={[10, 10, 5]} intensity={1} />
+        <Suspense fallback={null}>
+            <Rig animation={animation} cue={cue} direction={direction} still={reducedMotion}>
+                <Model type={type} modelUrl={modelUrl} color={color} />
+            </Rig>
+        </Suspense>
+        <OrbitControls enableZoom={false} enableRotate={!type} autoRotate={!type && !reducedMotion} />
+    </Canvas>
+);
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { render } from '@testing-library/react';
+import { renderContentHtml, StepContent } from './content';
+
+const PAYLOADS = {
+    'script tag': '<script>alert(1)</script>Hello',
+    'event handler attribute': '<img src="x" onerror="alert(1)"><p onclick="alert(1)">Hello</p>',
+    'javascript: link': '<a href="javascript:alert(1)">Hello</a>',
+    'obfuscated javascript: link': '<a href="&#106;ava&#x09;script:alert(1)">Hello</a><a href=" JaVaScRiPt:alert(1)">Hi</a>',
+    'markdown javascript: link': '[Hello](javascript:alert(1))',
+    'data: link': '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">Hello</a>',
+    iframe: '<iframe src="https://example.com" srcdoc="<script>alert(1)</script>"></iframe>Hello',
+    style: '<style>body { display: none }</style><p style="position:fixed">Hello</p>',
+    'svg with handler': '<svg><animate onbegin="alert(1)" /></svg>Hello',
+};
+
+// Parse sanitized output and fail on anything that could run code or restyle the page
+const expectClean = (html: string) => {
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    const elements = Array.from(template.content.querySelectorAll('*'));
+
+    expect(template.content.querySelector('script, iframe, style, img, svg, object, embed, form')).toBeNull();
+    for (const element of elements) {
+        for (const attribute of Array.from(element.attributes)) {
+            expect(attribute.name).not.toMatch(/^on/i);
+            expect(attribute.name).not.toBe('style');
+            expect(attribute.name).not.toBe('srcdoc');
+        }
+        const href = element.getAttribute('href');
+        if (href !== null) expect(href.replace(/[\s\u0000-\u001f]/g, '')).not.toMatch(/^(javascript|data|vbscript):/i);
+    }
+};
+
+describe.each(['markdown', 'html'] as const)('%s content', (contentType) => {
+    it.each(Object.entries(PAYLOADS))('strips a %s', (_, payload) => {
+        const html = renderContentHtml(payload, contentType);
+        expect(html).not.toBeNull();
+        expectClean(html!);
+    });
+
+    it('keeps allowed markup and opens links in a new tab', () => {
+        const source =
+            contentType === 'markdown'
+                ? '**Bold** [docs](https://example.com)'
+                : '<strong>Bold</strong> <a href="https://example.com">docs</a>';
+        const html = renderContentHtml(source, contentType)!;
+        expect(html).toContain('<strong>Bold</strong>');
+        expect(html).toContain('href="https://example.com"');
+        expect(html).toContain('target="_blank"');
+        expect(html).toContain('rel="noopener noreferrer"');
+    });
+});
+
+describe('StepContent', () => {
+    it('renders plain text as text, not markup', () => {
+        const { container } = render(<StepContent content={PAYLOADS['event handler attribute']} />);
+        expect(container.querySelector('img')).toBeNull();
+        expect(container.textContent).toContain('onerror');
+    });
+
+    it('renders sanitized HTML', () => {
+        const { container } = render(<StepContent content={PAYLOADS['script tag']} contentType="html" />);
+        expect(container.querySelector('script')).toBeNull();
+        expect(container.textContent).toBe('Hello');
+    });
+});
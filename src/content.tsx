@@ -0,0 +1,82 @@
+import React, { useMemo } from 'react';
+import createDOMPurify from 'dompurify';
+import { marked } from 'marked';
+import type { Step } from './types';
+
+// Step content rendering. Markdown is converted to HTML and all HTML goes
+// through an allowlist sanitizer, so tour authors get links, lists, emphasis
+// and code without being able to inject scripts into the host page.
+
+const ALLOWED_TAGS = [
+    'a', 'b', 'strong', 'i', 'em', 'u', 's', 'del', 'code', 'pre', 'kbd',
+    'p', 'br', 'hr', 'span', 'blockquote',
+    'ul', 'ol', 'li',
+    'h1', 'h2', 'h3', 'h4',
+];
+
+const ALLOWED_ATTR = ['href', 'title'];
+
+// http(s), mailto and tel links plus relative URLs; anything else with a
+// scheme (javascript:, data:, vbscript:, ...) is dropped
+const ALLOWED_URI_REGEXP = /^(?:(?:https?|mailto|tel):|[^a-z]|[a-z+.-]+(?:[^a-z+.\-:]|$))/i;
+
+// A private instance so our hooks never touch a DOMPurify the host page uses.
+// Created on first use, so importing this module needs no `window`.
+let purify: ReturnType<typeof createDOMPurify> | undefined;
+
+const getPurify = () => {
+    if (!purify) {
+        purify = createDOMPurify(window);
+        purify.addHook('afterSanitizeAttributes', (node) => {
+            if (node.tagName === 'A' && node.hasAttribute('href')) {
+                node.setAttribute('target', '_blank');
+                node.setAttribute('rel', 'noopener noreferrer');
+            }
+        });
+    }
+    return purify;
+};
+
+export const sanitizeHtml = (html: string) =>
+    getPurify().sanitize(html, {
+        ALLOWED_TAGS,
+        ALLOWED_ATTR,
+        ALLOWED_URI_REGEXP,
+        ADD_ATTR: ['target', 'rel'],
+        KEEP_CONTENT: true,
+    });
+
+export const renderMarkdown = (markdown: string) =>
+    sanitizeHtml(marked.parse(markdown, { async: false, gfm: true, breaks: true }) as string);
+
+// Sanitized HTML for a step's content, or null for plain text
+export const renderContentHtml = (content: string, contentType: Step['contentType'] = 'text') => {
+    switch (contentType) {
+        case 'markdown':
+            return renderMarkdown(content);
+        case 'html':
+            return sanitizeHtml(content);
+        default:
+            return null;
+    }
+};
+
+export interface StepContentProps {
+    content: string;
+    contentType?: Step['contentType'];
+    id?: string;
+    lang?: string;
+    dir?: 'ltr' | 'rtl' | 'auto';
+    className?: string;
+}
+
+// Renders a step's content in the widget's step card, or in a host app's own
+// (exported from the React SDK)
+export const StepContent: React.FC<StepContentProps> = ({ content, contentType, id, lang, dir, className = '' }) => {
+    const html = useMemo(() => renderContentHtml(content, contentType), [content, contentType]);
+
+    if (html === null) {
+        return <p id={id} lang={lang} dir={dir} className={`whitespace-pre-line ${className}`}>{content}</p>;
+    }
+    return <div id={id} lang={lang} dir={dir} className={`tour-content ${className}`} dangerouslySetInnerHTML={{ __html: html }} />;
+};
@@ -0,0 +1,116 @@
+// Programmatic control of a mounted widget. Host pages call `start`, `stop`
+// and `goTo` and listen with `on`; the widget connects to the same controller
+// to receive those commands and emit its events. Commands sent before the
+// widget has mounted are queued until it connects.
+
+export type WidgetCommand =
+    | { type: 'start'; tourId?: string }
+    | { type: 'stop' }
+    | { type: 'goTo'; step: number | string };
+
+export interface TourEvents {
+    start: { tourId: string; sessionId?: string; visitorId?: string };
+    stepView: { tourId: string; stepId: string; stepIndex: number };
+    stepComplete: { tourId: string; stepId: string; stepIndex: number };
+    complete: { tourId: string };
+    abandon: { tourId: string; stepId?: string };
+    error: { error: Error; tourId?: string }; // tours failed to load or a session failed to start
+}
+
+export type TourEventName = keyof TourEvents;
+export type TourEventHandler<E extends TourEventName> = (payload: TourEvents[E]) => void;
+
+// The same events as `onStart`-style options
+export interface TourCallbacks {
+    onStart?: TourEventHandler<'start'>;
+    onStepView?: TourEventHandler<'stepView'>;
+    onStepComplete?: TourEventHandler<'stepComplete'>;
+    onComplete?: TourEventHandler<'complete'>;
+    onAbandon?: TourEventHandler<'abandon'>;
+    onError?: TourEventHandler<'error'>;
+}
+
+const CALLBACK_EVENTS = {
+    onStart: 'start',
+    onStepView: 'stepView',
+    onStepComplete: 'stepComplete',
+    onComplete: 'complete',
+    onAbandon: 'abandon',
+    onError: 'error',
+} satisfies Record<keyof TourCallbacks, TourEventName>;
+
+export interface TourController {
+    // Show a tour from its first step; without an id, the tour for this page
+    start: (tourId?: string) => void;
+    // End the current tour without marking it dismissed
+    stop: () => void;
+    // Jump to a step by zero-based index or step id
+    goTo: (step: number | string) => void;
+    // Subscribe to an event; returns the unsubscribe
+    on: <E extends TourEventName>(event: E, handler: TourEventHandler<E>) => () => void;
+}
+
+// The side of the controller the widget itself uses
+export interface WidgetBridge {
+    connect: (handler: (command: WidgetCommand) => void) => () => void;
+    emit: <E extends TourEventName>(event: E, payload: TourEvents[E]) => void;
+}
+
+export const createTourController = (): TourController & WidgetBridge => {
+    const listeners = new Map<TourEventName, Set<(payload: never) => void>>();
+    let pending: WidgetCommand[] = [];
+    let connected: ((command: WidgetCommand) => void) | null = null;
+
+    const send = (command: WidgetCommand) => {
+        if (connected) connected(command);
+        else pending.push(command);
+    };
+
+    return {
+        start: (tourId) => send({ type: 'start', tourId }),
+        stop: () => send({ type: 'stop' }),
+        goTo: (step) => send({ type: 'goTo', step }),
+        on: (event, handler) => {
+            const handlers = listeners.get(event) ?? new Set();
+            handlers.add(handler);
+            listeners.set(event, handlers);
+            return () => {
+                handlers.delete(handler);
+            };
+        },
+        connect: (handler) => {
+            connected = handler;
+            const queued = pending;
+            pending = [];
+            queued.forEach(handler);
+            return () => {
+                if (connected === handler) connected = null;
+            };
+        },
+        emit: (event, payload) => {
+            listeners.get(event)?.forEach((handler) => {
+                // A failing host handler must not break the tour
+                try {
+                    (handler as TourEventHandler<typeof event>)(payload);
+                } catch (error) {
+                    console.error(error);
+                }
+            });
+        },
+    };
+};
+
+// Forward events to the callbacks `getCallbacks` returns at the time, so they
+// can change without resubscribing. Returns the unsubscribe.
+export const bindCallbacks = (controller: TourController, getCallbacks: () => TourCallbacks) => {
+    const unsubscribes = Object.entries(CALLBACK_EVENTS).map(([callback, event]) =>
+        controller.on(event, (payload) => {
+            const handler = getCallbacks()[callback as keyof TourCallbacks] as ((payload: unknown) => void) | undefined;
+            handler?.(payload);
+        })
+    );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+};
+
+// Turn whatever a failed call threw into an Error
+export const toError = (error: unknown) => (error instanceof Error ? error : new Error(String(error)));
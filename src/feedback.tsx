@@ -0,0 +1,186 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useFocusTrap } from './a11y';
+import type { UiStrings } from './i18n';
+import type { FeedbackType } from './types';
+
+// End-of-tour rating card: 1-5 stars, an optional type and comment. Shown
+// after a visitor completes or skips a tour when the tour's `feedbackPrompt`
+// asks for it.
+
+export interface FeedbackInput {
+    rating: number;
+    feedbackType?: FeedbackType;
+    comment?: string;
+}
+
+interface FeedbackPromptProps {
+    question?: string;
+    strings: UiStrings;
+    lang: string;
+    dir: 'ltr' | 'rtl';
+    reducedMotion: boolean;
+    onSubmit: (feedback: FeedbackInput) => void;
+    onClose: () => void;
+}
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+const FEEDBACK_TYPES: FeedbackType[] = ['helpful', 'confusing', 'too_long', 'too_short', 'technical_issue', 'other'];
+
+const MAX_COMMENT_LENGTH = 2000;
+
+// How long the thank-you note stays up
+const THANKS_MS = 2000;
+
+export const FeedbackPrompt: React.FC<FeedbackPromptProps> = ({
+    question,
+    strings,
+    lang,
+    dir,
+    reducedMotion,
+    onSubmit,
+    onClose,
+}) => {
+    const [rating, setRating] = useState<number | null>(null);
+    const [feedbackType, setFeedbackType] = useState<FeedbackType | undefined>();
+    const [comment, setComment] = useState('');
+    const [submitted, setSubmitted] = useState(false);
+
+    const ref = useRef<HTMLFormElement>(null);
+    const id = useId();
+    useFocusTrap(ref, true, { focusKey: submitted });
+
+    const onCloseRef = useRef(onClose);
+    onCloseRef.current = onClose;
+    useEffect(() => {
+        if (!submitted) return;
+        const timer = setTimeout(() => onCloseRef.current(), THANKS_MS);
+        return () => clearTimeout(timer);
+    }, [submitted]);
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        if (rating === null) return;
+        onSubmit({ rating, feedbackType, comment: comment.trim() || undefined });
+        setSubmitted(true);
+    };
+
+    return (
+        <motion.form
+            ref={ref}
+            role="dialog"
+            aria-labelledby={`${id}-title`}
+            tabIndex={-1}
+            lang={lang}
+            dir={dir}
+            onSubmit={handleSubmit}
+            onKeyDown={(event) => {
+                if (event.key === 'Escape') {
+                    event.stopPropagation();
+                    onClose();
+                }
+            }}
+            initial={{ opacity: 0, y: 20, scale: 0.9 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            transition={reducedMotion ? { duration: 0 } : undefined}
+            className="bg-tour-surface p-6 rounded-xl shadow-2xl w-80 pointer-events-auto border border-tour-primary-soft outline-none"
+        >
+            {submitted ? (
+                <p id={`${id}-title`} role="status" className="text-sm text-tour-text">
+                    {strings.feedbackThanks}
+                </p>
+            ) : (
+                <>
+                    <div className="flex justify-between items-center mb-3">
+                        <h3 id={`${id}-title`} dir="auto" className="font-bold text-lg text-tour-text">
+                            {question || strings.feedbackTitle}
+                        </h3>
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            aria-label={strings.feedbackDismiss}
+                            className="text-tour-muted hover:text-tour-text"
+                        >
+                            ×
+                        </button>
+                    </div>
+
+                    <fieldset className="flex gap-1 mb-4">
+                        <legend className="sr-only">{question || strings.feedbackTitle}</legend>
+                        {RATINGS.map((value) => (
+                            <label key={value} className="cursor-pointer text-2xl leading-none">
+                                <input
+                                    type="radio"
+                                    name={`${id}-rating`}
+                                    value={value}
+                                    checked={rating === value}
+                                    onChange={() => setRating(value)}
+                                    className="sr-only peer"
+                                />
+                                <span
+                                    aria-hidden="true"
+                                    className={`rounded peer-focus-visible:ring-2 peer-focus-visible:ring-tour-primary ${
+                                        rating !== null && value <= rating ? 'text-tour-primary' : 'text-tour-border'
+                                    }`}
+                                >
+                                    ★
+                                </span>
+                                <span className="sr-only">{strings.feedbackRating(value)}</span>
+                            </label>
+                        ))}
+                    </fieldset>
+
+                    <fieldset className="mb-4">
+                        <legend className="text-xs text-tour-muted mb-2">{strings.feedbackTypeLabel}</legend>
+                        <div className="flex flex-wrap gap-1.5">
+                            {FEEDBACK_TYPES.map((type) => (
+                                <label key={type} className="cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        name={`${id}-type`}
+                                        value={type}
+                                        checked={feedbackType === type}
+                                        onChange={() => setFeedbackType(type)}
+                                        className="sr-only peer"
+                                    />
+                                    <span className="block px-2 py-1 text-xs rounded-lg bg-tour-subtle text-tour-text hover:bg-tour-subtle-hover peer-checked:bg-tour-primary peer-checked:text-tour-on-primary peer-focus-visible:ring-2 peer-focus-visible:ring-tour-primary">
+                                        {strings.feedbackTypes[type]}
+                                    </span>
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+
+                    <textarea
+                        value={comment}
+                        onChange={(event) => setComment(event.target.value)}
+                        placeholder={strings.feedbackComment}
+                        aria-label={strings.feedbackComment}
+                        maxLength={MAX_COMMENT_LENGTH}
+                        rows={3}
+                        dir="auto"
+                        className="w-full p-2 text-sm rounded-lg border border-tour-border bg-tour-surface text-tour-text placeholder:text-tour-muted"
+                    />
+
+                    <div className="flex justify-between items-center mt-4 pt-4 border-t border-tour-border">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="text-xs text-tour-muted hover:text-tour-text font-medium"
+                        >
+                            {strings.feedbackDismiss}
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={rating === null}
+                            className="px-3 py-1.5 text-xs font-medium text-tour-on-primary bg-tour-primary rounded-lg hover:bg-tour-primary-hover disabled:opacity-50"
+                        >
+                            {strings.feedbackSubmit}
+                        </button>
+                    </div>
+                </>
+            )}
+        </motion.form>
+    );
+};
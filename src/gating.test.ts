@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { onInteraction } from './gating';
+
+afterEach(() => {
+    document.body.innerHTML = '';
+});
+
+// Listen for interaction with `#field`, rendered from `html`
+const listen = (html: string) => {
+    document.body.innerHTML = html;
+    const onComplete = vi.fn();
+    const stop = onInteraction('#field', onComplete);
+    return { field: document.getElementById('field')!, onComplete, stop };
+};
+
+describe('onInteraction', () => {
+    it('completes on a click on a button', () => {
+        const { field, onComplete } = listen('<button id="field">Go</button>');
+        field.click();
+        expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it('completes a checkbox once, though its click also fires change', () => {
+        const { field, onComplete } = listen('<input id="field" type="checkbox" />');
+        field.click();
+        field.click();
+        expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it('waits for a select to change rather than for the click that opens it', () => {
+        const { field, onComplete } = listen('<select id="field"><option>a</option><option>b</option></select>');
+        field.click();
+        expect(onComplete).not.toHaveBeenCalled();
+        (field as HTMLSelectElement).value = 'b';
+        field.dispatchEvent(new Event('change', { bubbles: true }));
+        expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it('completes a text field on input, not on focusing click', () => {
+        const { field, onComplete } = listen('<input id="field" type="email" />');
+        field.click();
+        expect(onComplete).not.toHaveBeenCalled();
+        field.dispatchEvent(new Event('input', { bubbles: true }));
+        expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops listening once cleaned up', () => {
+        const { field, onComplete, stop } = listen('<button id="field">Go</button>');
+        stop();
+        field.click();
+        expect(onComplete).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,96 @@
+import { queryTarget } from './positioning';
+
+// Step gating: waiting for late-rendered elements and for the visitor to
+// interact with an element before a step can advance.
+
+// Present in the DOM and laid out, i.e. not display:none
+const isRendered = (element: Element) => element.getClientRects().length > 0;
+
+const findRendered = (selector: string) => {
+    const element = queryTarget(selector);
+    return element && isRendered(element) ? element : null;
+};
+
+// Resolve with the element once it renders, or null after `timeout` ms or abort
+export const waitForElement = (selector: string, timeout: number, signal?: AbortSignal) =>
+    new Promise<Element | null>((resolve) => {
+        const existing = findRendered(selector);
+        if (existing || signal?.aborted) {
+            resolve(existing);
+            return;
+        }
+
+        const finish = (element: Element | null) => {
+            observer.disconnect();
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+            resolve(element);
+        };
+        const onAbort = () => finish(null);
+
+        const observer = new MutationObserver(() => {
+            const element = findRendered(selector);
+            if (element) finish(element);
+        });
+        const timer = setTimeout(() => finish(null), timeout);
+        signal?.addEventListener('abort', onAbort);
+        observer.observe(document.documentElement, { childList: true, subtree: true, attributes: true });
+    });
+
+// Text fields, which report typing through `input` events
+const isEditable = (element: Element) =>
+    element instanceof HTMLTextAreaElement ||
+    (element instanceof HTMLInputElement &&
+        !['button', 'submit', 'reset', 'checkbox', 'radio', 'file', 'image', 'range', 'color'].includes(element.type)) ||
+    (element instanceof HTMLElement && element.isContentEditable);
+
+// Controls whose clicks don't mean a choice was made; they report it through
+// `change` (selects, checkboxes, radios) or `input` (text fields) instead
+const isFormControl = (element: Element) =>
+    element instanceof HTMLSelectElement ||
+    (element instanceof HTMLInputElement && !['button', 'submit', 'reset', 'image'].includes(element.type)) ||
+    isEditable(element);
+
+// Call `onComplete` once, when the visitor clicks the element matching
+// `selector`, changes its value (selects, checkboxes, radios), or types into
+// it. Listens at the document so elements re-rendered by the host app still
+// count.
+export const onInteraction = (selector: string, onComplete: () => void) => {
+    const matches = (event: Event) => {
+        const target = event.target instanceof Element ? event.target : null;
+        try {
+            return target?.closest(selector) ?? null;
+        } catch {
+            return null;
+        }
+    };
+
+    // A checkbox click also fires `change`, so only the first event counts
+    let done = false;
+    const complete = () => {
+        if (done) return;
+        done = true;
+        onComplete();
+    };
+
+    const handleClick = (event: Event) => {
+        const element = matches(event);
+        if (element && !isFormControl(element)) complete();
+    };
+    const handleChange = (event: Event) => {
+        if (matches(event)) complete();
+    };
+    const handleInput = (event: Event) => {
+        const element = matches(event);
+        if (element && isEditable(element)) complete();
+    };
+
+    document.addEventListener('click', handleClick, true);
+    document.addEventListener('change', handleChange, true);
+    document.addEventListener('input', handleInput, true);
+    return () => {
+        document.removeEventListener('click', handleClick, true);
+        document.removeEventListener('change', handleChange, true);
+        document.removeEventListener('input', handleInput, true);
+    };
+};
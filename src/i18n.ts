@@ -0,0 +1,347 @@
+import { localeChain, localizeStep as localizeStepText } from '../convex/lib/locale';
+import type { FeedbackType, Step } from './types';
+
+// Widget locale: picks the visitor's language, translates the card's own
+// labels and resolves per-locale step text for tours passed in directly
+// (tours loaded from the backend arrive already localized).
+
+export interface UiStrings {
+    skip: string;
+    back: string;
+    next: string;
+    finish: string;
+    closeTour: string;
+    endTour: string;
+    showTour: string;
+    hideTour: string;
+    tryIt: string;
+    stepStatus: (current: number, total: number, title: string) => string;
+    feedbackTitle: string;
+    feedbackRating: (rating: number) => string;
+    feedbackTypeLabel: string;
+    feedbackTypes: Record<FeedbackType, string>;
+    feedbackComment: string;
+    feedbackSubmit: string;
+    feedbackDismiss: string;
+    feedbackThanks: string;
+}
+
+const UI_STRINGS: Record<string, UiStrings> = {
+    en: {
+        skip: 'Skip',
+        back: 'Back',
+        next: 'Next',
+        finish: 'Finish',
+        closeTour: 'Close tour',
+        endTour: 'End tour',
+        showTour: 'Show tour',
+        hideTour: 'Hide tour',
+        tryIt: 'Try it yourself to continue.',
+        stepStatus: (current, total, title) => `Step ${current} of ${total}: ${title}`,
+        feedbackTitle: 'How was this tour?',
+        feedbackRating: (rating) => `${rating} out of 5`,
+        feedbackTypeLabel: 'What best describes it?',
+        feedbackTypes: {
+            helpful: 'Helpful',
+            confusing: 'Confusing',
+            too_long: 'Too long',
+            too_short: 'Too short',
+            technical_issue: 'Something broke',
+            other: 'Other',
+        },
+        feedbackComment: 'Anything else? (optional)',
+        feedbackSubmit: 'Send',
+        feedbackDismiss: 'No thanks',
+        feedbackThanks: 'Thanks for your feedback!',
+    },
+    fr: {
+        skip: 'Passer',
+        back: 'Retour',
+        next: 'Suivant',
+        finish: 'Terminer',
+        closeTour: 'Fermer la visite',
+        endTour: 'Quitter la visite',
+        showTour: 'Afficher la visite',
+        hideTour: 'Masquer la visite',
+        tryIt: 'Essayez vous-même pour continuer.',
+        stepStatus: (current, total, title) => `Étape ${current} sur ${total} : ${title}`,
+        feedbackTitle: "Comment s'est passée cette visite ?",
+        feedbackRating: (rating) => `${rating} sur 5`,
+        feedbackTypeLabel: "Qu'en avez-vous pensé ?",
+        feedbackTypes: {
+            helpful: 'Utile',
+            confusing: 'Déroutante',
+            too_long: 'Trop longue',
+            too_short: 'Trop courte',
+            technical_issue: 'Problème technique',
+            other: 'Autre',
+        },
+        feedbackComment: 'Autre chose ? (facultatif)',
+        feedbackSubmit: 'Envoyer',
+        feedbackDismiss: 'Non merci',
+        feedbackThanks: 'Merci pour votre avis !',
+    },
+    es: {
+        skip: 'Omitir',
+        back: 'Atrás',
+        next: 'Siguiente',
+        finish: 'Finalizar',
+        closeTour: 'Cerrar el recorrido',
+        endTour: 'Salir del recorrido',
+        showTour: 'Mostrar el recorrido',
+        hideTour: 'Ocultar el recorrido',
+        tryIt: 'Pruébalo tú mismo para continuar.',
+        stepStatus: (current, total, title) => `Paso ${current} de ${total}: ${title}`,
+        feedbackTitle: '¿Qué te pareció el recorrido?',
+        feedbackRating: (rating) => `${rating} de 5`,
+        feedbackTypeLabel: '¿Cómo lo describirías?',
+        feedbackTypes: {
+            helpful: 'Útil',
+            confusing: 'Confuso',
+            too_long: 'Demasiado largo',
+            too_short: 'Demasiado corto',
+            technical_issue: 'Problema técnico',
+            other: 'Otro',
+        },
+        feedbackComment: '¿Algo más? (opcional)',
+        feedbackSubmit: 'Enviar',
+        feedbackDismiss: 'No, gracias',
+        feedbackThanks: '¡Gracias por tu opinión!',
+    },
+    de: {
+        skip: 'Überspringen',
+        back: 'Zurück',
+        next: 'Weiter',
+        finish: 'Fertig',
+        closeTour: 'Tour schließen',
+        endTour: 'Tour beenden',
+        showTour: 'Tour anzeigen',
+        hideTour: 'Tour ausblenden',
+        tryIt: 'Probieren Sie es selbst aus, um fortzufahren.',
+        stepStatus: (current, total, title) => `Schritt ${current} von ${total}: ${title}`,
+        feedbackTitle: 'Wie fanden Sie die Tour?',
+        feedbackRating: (rating) => `${rating} von 5`,
+        feedbackTypeLabel: 'Was trifft am ehesten zu?',
+        feedbackTypes: {
+            helpful: 'Hilfreich',
+            confusing: 'Verwirrend',
+            too_long: 'Zu lang',
+            too_short: 'Zu kurz',
+            technical_issue: 'Technisches Problem',
+            other: 'Sonstiges',
+        },
+        feedbackComment: 'Sonst noch etwas? (optional)',
+        feedbackSubmit: 'Senden',
+        feedbackDismiss: 'Nein, danke',
+        feedbackThanks: 'Danke für Ihr Feedback!',
+    },
+    pt: {
+        skip: 'Pular',
+        back: 'Voltar',
+        next: 'Próximo',
+        finish: 'Concluir',
+        closeTour: 'Fechar o tour',
+        endTour: 'Sair do tour',
+        showTour: 'Mostrar o tour',
+        hideTour: 'Ocultar o tour',
+        tryIt: 'Experimente para continuar.',
+        stepStatus: (current, total, title) => `Etapa ${current} de ${total}: ${title}`,
+        feedbackTitle: 'O que achou do tour?',
+        feedbackRating: (rating) => `${rating} de 5`,
+        feedbackTypeLabel: 'O que melhor o descreve?',
+        feedbackTypes: {
+            helpful: 'Útil',
+            confusing: 'Confuso',
+            too_long: 'Longo demais',
+            too_short: 'Curto demais',
+            technical_issue: 'Problema técnico',
+            other: 'Outro',
+        },
+        feedbackComment: 'Algo mais? (opcional)',
+        feedbackSubmit: 'Enviar',
+        feedbackDismiss: 'Não, obrigado',
+        feedbackThanks: 'Obrigado pelo seu feedback!',
+    },
+    it: {
+        skip: 'Salta',
+        back: 'Indietro',
+        next: 'Avanti',
+        finish: 'Fine',
+        closeTour: 'Chiudi il tour',
+        endTour: 'Esci dal tour',
+        showTour: 'Mostra il tour',
+        hideTour: 'Nascondi il tour',
+        tryIt: 'Provalo tu per continuare.',
+        stepStatus: (current, total, title) => `Passo ${current} di ${total}: ${title}`,
+        feedbackTitle: "Com'era il tour?",
+        feedbackRating: (rating) => `${rating} su 5`,
+        feedbackTypeLabel: 'Cosa lo descrive meglio?',
+        feedbackTypes: {
+            helpful: 'Utile',
+            confusing: 'Confuso',
+            too_long: 'Troppo lungo',
+            too_short: 'Troppo breve',
+            technical_issue: 'Problema tecnico',
+            other: 'Altro',
+        },
+        feedbackComment: 'Altro da aggiungere? (facoltativo)',
+        feedbackSubmit: 'Invia',
+        feedbackDismiss: 'No, grazie',
+        feedbackThanks: 'Grazie per il tuo feedback!',
+    },
+    nl: {
+        skip: 'Overslaan',
+        back: 'Terug',
+        next: 'Volgende',
+        finish: 'Voltooien',
+        closeTour: 'Rondleiding sluiten',
+        endTour: 'Rondleiding beëindigen',
+        showTour: 'Rondleiding tonen',
+        hideTour: 'Rondleiding verbergen',
+        tryIt: 'Probeer het zelf om verder te gaan.',
+        stepStatus: (current, total, title) => `Stap ${current} van ${total}: ${title}`,
+        feedbackTitle: 'Wat vond je van de rondleiding?',
+        feedbackRating: (rating) => `${rating} van 5`,
+        feedbackTypeLabel: 'Wat past het best?',
+        feedbackTypes: {
+            helpful: 'Nuttig',
+            confusing: 'Verwarrend',
+            too_long: 'Te lang',
+            too_short: 'Te kort',
+            technical_issue: 'Technisch probleem',
+            other: 'Anders',
+        },
+        feedbackComment: 'Nog iets? (optioneel)',
+        feedbackSubmit: 'Versturen',
+        feedbackDismiss: 'Nee, bedankt',
+        feedbackThanks: 'Bedankt voor je feedback!',
+    },
+    ja: {
+        skip: 'スキップ',
+        back: '戻る',
+        next: '次へ',
+        finish: '完了',
+        closeTour: 'ツアーを閉じる',
+        endTour: 'ツアーを終了',
+        showTour: 'ツアーを表示',
+        hideTour: 'ツアーを隠す',
+        tryIt: '実際に操作して次に進んでください。',
+        stepStatus: (current, total, title) => `ステップ ${current}/${total}: ${title}`,
+        feedbackTitle: 'このツアーはいかがでしたか？',
+        feedbackRating: (rating) => `5段階中 ${rating}`,
+        feedbackTypeLabel: '最も近いものを選んでください',
+        feedbackTypes: {
+            helpful: '役に立った',
+            confusing: 'わかりにくい',
+            too_long: '長すぎる',
+            too_short: '短すぎる',
+            technical_issue: '技術的な問題',
+            other: 'その他',
+        },
+        feedbackComment: 'ほかにご意見はありますか？（任意）',
+        feedbackSubmit: '送信',
+        feedbackDismiss: '回答しない',
+        feedbackThanks: 'ご意見ありがとうございました！',
+    },
+    zh: {
+        skip: '跳过',
+        back: '上一步',
+        next: '下一步',
+        finish: '完成',
+        closeTour: '关闭导览',
+        endTour: '结束导览',
+        showTour: '显示导览',
+        hideTour: '隐藏导览',
+        tryIt: '请亲自操作以继续。',
+        stepStatus: (current, total, title) => `第 ${current} 步，共 ${total} 步：${title}`,
+        feedbackTitle: '这次导览怎么样？',
+        feedbackRating: (rating) => `${rating} 分（满分 5 分）`,
+        feedbackTypeLabel: '哪项最符合？',
+        feedbackTypes: {
+            helpful: '有帮助',
+            confusing: '令人困惑',
+            too_long: '太长',
+            too_short: '太短',
+            technical_issue: '技术问题',
+            other: '其他',
+        },
+        feedbackComment: '还有其他意见吗？（可选）',
+        feedbackSubmit: '发送',
+        feedbackDismiss: '不用了',
+        feedbackThanks: '感谢您的反馈！',
+    },
+    ar: {
+        skip: 'تخطي',
+        back: 'رجوع',
+        next: 'التالي',
+        finish: 'إنهاء',
+        closeTour: 'إغلاق الجولة',
+        endTour: 'إنهاء الجولة',
+        showTour: 'إظهار الجولة',
+        hideTour: 'إخفاء الجولة',
+        tryIt: 'جرّب ذلك بنفسك للمتابعة.',
+        stepStatus: (current, total, title) => `الخطوة ${current} من ${total}: ${title}`,
+        feedbackTitle: 'ما رأيك في هذه الجولة؟',
+        feedbackRating: (rating) => `${rating} من 5`,
+        feedbackTypeLabel: 'ما الوصف الأنسب؟',
+        feedbackTypes: {
+            helpful: 'مفيدة',
+            confusing: 'مربكة',
+            too_long: 'طويلة جدًا',
+            too_short: 'قصيرة جدًا',
+            technical_issue: 'مشكلة تقنية',
+            other: 'أخرى',
+        },
+        feedbackComment: 'هل لديك ملاحظات أخرى؟ (اختياري)',
+        feedbackSubmit: 'إرسال',
+        feedbackDismiss: 'لا، شكرًا',
+        feedbackThanks: 'شكرًا على ملاحظاتك!',
+    },
+    he: {
+        skip: 'דלג',
+        back: 'הקודם',
+        next: 'הבא',
+        finish: 'סיום',
+        closeTour: 'סגירת הסיור',
+        endTour: 'יציאה מהסיור',
+        showTour: 'הצגת הסיור',
+        hideTour: 'הסתרת הסיור',
+        tryIt: 'נסו בעצמכם כדי להמשיך.',
+        stepStatus: (current, total, title) => `שלב ${current} מתוך ${total}: ${title}`,
+        feedbackTitle: 'איך היה הסיור?',
+        feedbackRating: (rating) => `${rating} מתוך 5`,
+        feedbackTypeLabel: 'מה מתאר אותו הכי טוב?',
+        feedbackTypes: {
+            helpful: 'מועיל',
+            confusing: 'מבלבל',
+            too_long: 'ארוך מדי',
+            too_short: 'קצר מדי',
+            technical_issue: 'בעיה טכנית',
+            other: 'אחר',
+        },
+        feedbackComment: 'משהו נוסף? (לא חובה)',
+        feedbackSubmit: 'שליחה',
+        feedbackDismiss: 'לא, תודה',
+        feedbackThanks: 'תודה על המשוב!',
+    },
+};
+
+// Languages written right to left
+const RTL_LANGUAGES = new Set(['ar', 'he', 'iw', 'fa', 'ur', 'ps', 'yi', 'dv', 'ckb', 'sd', 'ug']);
+
+// The explicit locale option, else the browser's language
+export const resolveLocale = (option?: string) => option || navigator.language || 'en';
+
+export const getUiStrings = (locale: string) => {
+    const match = localeChain(locale).find((tag) => tag in UI_STRINGS);
+    return UI_STRINGS[match ?? 'en'];
+};
+
+export const isRtl = (locale: string) => RTL_LANGUAGES.has(localeChain(locale).pop() ?? '');
+
+// Apply the step's best matching translation, the same way the backend does
+// for tours it serves
+export const localizeStep = (step: Step, locale: string): Step => ({
+    ...step,
+    ...localizeStepText(step, locale, step.locale),
+});
@@ -1,19 +1,50 @@
-import React from 'react'
-import ReactDOM from 'react-dom/client'
-import { Widget } from './Widget'
-import './index.css'
-
-// Check if root exists, if not create a container
-let rootElement = document.getElementById('root')
-if (!rootElement) {
-    const div = document.createElement('div')
-    div.id = 'tour-widget-root'
-    document.body.appendChild(div)
-    rootElement = div
+import { createTourController } from './controller'
+import type { TourEventName, TourEventHandler } from './controller'
+import { mountWidget } from './vanilla'
+import type { TourWidgetInstance, TourWidgetOptions, Visitor } from './vanilla'
+
+// Script-tag entry: one widget per page behind `TourWidget.init()` and the
+// `TourWidget.start()`-style functions. It also re-exports the vanilla SDK.
+// Importing it has no side effects; the standalone build mounts the widget
+// from its script tag (see standalone.ts).
+
+export { createTourWidget } from './vanilla'
+export type { TourWidgetInstance, TourWidgetOptions, Visitor } from './vanilla'
+export type { TourCallbacks, TourController, TourEventName, TourEventHandler, TourEvents } from './controller'
+// Step content as sanitized HTML, the same way the widget renders it
+export { renderContentHtml } from './content'
+
+// One controller for the page, so handlers registered with `on` before
+// `init` and across re-inits keep working
+const controller = createTourController()
+
+let widget: TourWidgetInstance | null = null
+// Visitor passed to `identify` before `init`
+let identified: Visitor | undefined
+
+// The widget `init` mounted, if it's on the page
+export const getWidget = () => widget
+
+// Remove the widget from the page
+export const destroy = () => {
+    widget?.destroy()
+    widget = null
+}
+
+// Mount the widget, replacing one mounted earlier
+export const init = (options: TourWidgetOptions = {}) => {
+    destroy()
+    widget = mountWidget({ ...options, visitor: options.visitor ?? identified }, controller)
+    return widget
 }
 
-ReactDOM.createRoot(rootElement).render(
-    <React.StrictMode>
-        <Widget />
-    </React.StrictMode>,
-)
+export const start = (tourId?: string) => controller.start(tourId)
+export const stop = () => controller.stop()
+export const goTo = (step: number | string) => controller.goTo(step)
+export const on = <E extends TourEventName>(event: E, handler: TourEventHandler<E>) => controller.on(event, handler)
+
+// Replace what's known about the visitor, e.g. once they sign in
+export const identify = (visitor: Visitor) => {
+    identified = visitor
+    widget?.identify(visitor)
+}
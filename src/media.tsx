@@ -0,0 +1,179 @@
+import React, { useEffect, useRef } from 'react';
+import { usePrefersReducedMotion } from './preferences';
+import type { Step } from './types';
+
+// Image and video blocks for step cards. Videos play from a file URL or a
+// known embed provider; playback start and finish are reported through
+// `onPlayback` so they land in `customEvents`.
+
+export type PlaybackEvent = 'video_started' | 'video_completed';
+
+type VideoSource =
+    | { kind: 'file'; src: string }
+    | { kind: 'embed'; provider: 'youtube' | 'vimeo' | 'loom'; id: string };
+
+// Recognize embed providers by URL; anything else is treated as a video file
+export const parseVideoUrl = (raw: string): VideoSource | null => {
+    let url: URL;
+    try {
+        url = new URL(raw, location.href);
+    } catch {
+        return null;
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+
+    const host = url.hostname.replace(/^www\./, '');
+    if (host === 'youtu.be') {
+        return { kind: 'embed', provider: 'youtube', id: url.pathname.slice(1) };
+    }
+    if (host === 'youtube.com' || host === 'm.youtube.com' || host === 'youtube-nocookie.com') {
+        const id = url.searchParams.get('v') ?? url.pathname.match(/^\/(?:embed|shorts)\/([^/]+)/)?.[1];
+        return id ? { kind: 'embed', provider: 'youtube', id } : null;
+    }
+    if (host === 'vimeo.com' || host === 'player.vimeo.com') {
+        const id = url.pathname.match(/(\d+)/)?.[1];
+        return id ? { kind: 'embed', provider: 'vimeo', id } : null;
+    }
+    if (host === 'loom.com') {
+        const id = url.pathname.match(/^\/(?:share|embed)\/([^/]+)/)?.[1];
+        return id ? { kind: 'embed', provider: 'loom', id } : null;
+    }
+    return { kind: 'file', src: url.href };
+};
+
+const embedSrc = (source: Extract<VideoSource, { kind: 'embed' }>, autoplay: boolean) => {
+    const play = autoplay ? '1' : '0';
+    switch (source.provider) {
+        case 'youtube':
+            return `https://www.youtube-nocookie.com/embed/${encodeURIComponent(source.id)}?enablejsapi=1&playsinline=1&mute=1&autoplay=${play}&origin=${encodeURIComponent(location.origin)}`;
+        case 'vimeo':
+            return `https://player.vimeo.com/video/${encodeURIComponent(source.id)}?dnt=1&muted=1&autoplay=${play}`;
+        case 'loom':
+            return `https://www.loom.com/embed/${encodeURIComponent(source.id)}?muted=1&autoplay=${play}`;
+    }
+};
+
+// Subscribe to the provider's postMessage player API where it has one
+const useEmbedPlayback = (
+    iframeRef: React.RefObject<HTMLIFrameElement>,
+    provider: 'youtube' | 'vimeo' | 'loom' | null,
+    videoId: string | null,
+    onPlayback: (event: PlaybackEvent) => void
+) => {
+    const onPlaybackRef = useRef(onPlayback);
+    onPlaybackRef.current = onPlayback;
+
+    useEffect(() => {
+        const iframe = iframeRef.current;
+        if (!iframe || (provider !== 'youtube' && provider !== 'vimeo')) return;
+
+        const handshake = () => {
+            const target = iframe.contentWindow;
+            if (!target) return;
+            if (provider === 'youtube') {
+                target.postMessage(JSON.stringify({ event: 'listening', id: 1 }), '*');
+            } else {
+                target.postMessage(JSON.stringify({ method: 'addEventListener', value: 'play' }), '*');
+                target.postMessage(JSON.stringify({ method: 'addEventListener', value: 'ended' }), '*');
+            }
+        };
+
+        const handleMessage = (event: MessageEvent) => {
+            if (event.source !== iframe.contentWindow) return;
+            let data: Record<string, unknown>;
+            try {
+                data = typeof event.data === 'string' ? JSON.parse(event.data) : event.data;
+            } catch {
+                return;
+            }
+            if (provider === 'youtube') {
+                // 1 = playing, 0 = ended
+                const state =
+                    data.event === 'onStateChange'
+                        ? data.info
+                        : (data.info as { playerState?: number } | undefined)?.playerState;
+                if (state === 1) onPlaybackRef.current('video_started');
+                if (state === 0) onPlaybackRef.current('video_completed');
+            } else {
+                if (data.event === 'play') onPlaybackRef.current('video_started');
+                if (data.event === 'ended') onPlaybackRef.current('video_completed');
+            }
+        };
+
+        iframe.addEventListener('load', handshake);
+        window.addEventListener('message', handleMessage);
+        return () => {
+            iframe.removeEventListener('load', handshake);
+            window.removeEventListener('message', handleMessage);
+        };
+    }, [iframeRef, provider, videoId]);
+};
+
+interface StepMediaProps {
+    step: Step;
+    onPlayback: (event: PlaybackEvent, data: { stepId: string; videoUrl: string }) => void;
+}
+
+export const StepMedia: React.FC<StepMediaProps> = ({ step, onPlayback }) => {
+    const reducedMotion = usePrefersReducedMotion();
+    const iframeRef = useRef<HTMLIFrameElement>(null);
+    const video = step.videoUrl ? parseVideoUrl(step.videoUrl) : null;
+    // Report each milestone once per step view, however often the player repeats it
+    const reported = useRef(new Set<PlaybackEvent>());
+
+    useEffect(() => {
+        reported.current = new Set();
+    }, [step.id]);
+
+    const report = (event: PlaybackEvent) => {
+        if (reported.current.has(event) || !step.videoUrl) return;
+        reported.current.add(event);
+        onPlayback(event, { stepId: step.id, videoUrl: step.videoUrl });
+    };
+
+    const embed = video?.kind === 'embed' ? video : null;
+    useEmbedPlayback(iframeRef, embed?.provider ?? null, embed?.id ?? null, report);
+
+    // Autoplay only muted, and never when the visitor asked for less motion
+    const autoplay = !reducedMotion;
+
+    return (
+        <>
+            {step.imageUrl && (
+                <img
+                    src={step.imageUrl}
+                    alt={step.imageAlt ?? ''}
+                    loading="lazy"
+                    decoding="async"
+                    className="w-full rounded-lg mb-3 object-cover max-h-48"
+                />
+            )}
+            {video?.kind === 'file' && (
+                <video
+                    key={video.src}
+                    src={video.src}
+                    className="w-full rounded-lg mb-3 max-h-48 bg-black"
+                    autoPlay={autoplay}
+                    muted
+                    playsInline
+                    controls
+                    preload="metadata"
+                    onPlay={() => report('video_started')}
+                    onEnded={() => report('video_completed')}
+                />
+            )}
+            {video?.kind === 'embed' && (
+                <iframe
+                    key={`${video.provider}:${video.id}`}
+                    ref={iframeRef}
+                    src={embedSrc(video, autoplay)}
+                    title={step.title}
+                    className="w-full aspect-video rounded-lg mb-3"
+                    loading="lazy"
+                    allow="autoplay; encrypted-media; picture-in-picture; fullscreen"
+                    allowFullScreen
+                />
+            )}
+        </>
+    );
+};
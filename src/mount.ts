@@ -0,0 +1,21 @@
+import styles from './index.css?inline';
+
+// Render inside a shadow root so the host page's CSS can't restyle the
+// widget and the widget's Tailwind output can't leak into the page. Returns
+// the element to render into and a cleanup that removes it from the page.
+export const createShadowContainer = () => {
+    const host = document.createElement('div');
+    // An attribute rather than an id, as a page can hold several widgets
+    host.setAttribute('data-tour-widget', '');
+    document.body.appendChild(host);
+
+    const shadow = host.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = styles;
+    shadow.appendChild(style);
+
+    const container = document.createElement('div');
+    shadow.appendChild(container);
+
+    return { container, remove: () => host.remove() };
+};
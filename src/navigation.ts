@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+
+// Location tracking for multi-page tours, covering full page loads and
+// History API navigations in single-page apps.
+
+export const LOCATION_CHANGE_EVENT = 'tourwidget:locationchange';
+
+let historyPatched = false;
+
+// pushState/replaceState don't emit events, so wrap them once per page
+const patchHistory = () => {
+    if (historyPatched) return;
+    historyPatched = true;
+    for (const method of ['pushState', 'replaceState'] as const) {
+        const original = history[method];
+        history[method] = function (this: History, ...args: Parameters<History['pushState']>) {
+            const result = original.apply(this, args);
+            window.dispatchEvent(new Event(LOCATION_CHANGE_EVENT));
+            return result;
+        };
+    }
+};
+
+// The current `location.href`, updated on every navigation
+export const useLocationHref = () => {
+    const [href, setHref] = useState(() => location.href);
+
+    useEffect(() => {
+        patchHistory();
+        const update = () => setHref(location.href);
+        window.addEventListener(LOCATION_CHANGE_EVENT, update);
+        window.addEventListener('popstate', update);
+        window.addEventListener('hashchange', update);
+        return () => {
+            window.removeEventListener(LOCATION_CHANGE_EVENT, update);
+            window.removeEventListener('popstate', update);
+            window.removeEventListener('hashchange', update);
+        };
+    }, []);
+
+    return href;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+// Whether `href` is the page a step declares. Patterns are either a path
+// ("/checkout/:step", "/docs/*") matched against the pathname, or a full URL
+// matched against origin and path. Query strings, hashes and trailing
+// slashes are ignored.
+export const matchesPage = (pattern: string, href: string) => {
+    const url = new URL(href);
+    let subject = url.pathname;
+    let path = pattern;
+    if (!pattern.startsWith('/')) {
+        try {
+            const target = new URL(pattern);
+            if (target.origin !== url.origin) return false;
+            path = target.pathname;
+        } catch {
+            return false;
+        }
+    }
+
+    const trim = (value: string) => value.replace(/[?#].*$/, '').replace(/\/+$/, '') || '/';
+    subject = trim(subject);
+    const source = trim(path)
+        .split('/')
+        .map((segment) =>
+            segment.startsWith(':') ? '[^/]+' : segment.split('*').map(escapeRegExp).join('.*')
+        )
+        .join('/');
+    return new RegExp(`^${source}$`, 'i').test(subject);
+};
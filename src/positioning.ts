@@ -0,0 +1,214 @@
+import { useEffect, useLayoutEffect, useState } from 'react';
+import type { RefObject } from 'react';
+import type { StepPosition } from './types';
+
+// Positioning engine that anchors a step card to its target element and
+// keeps it inside the viewport.
+
+export type Placement = 'top' | 'bottom' | 'left' | 'right';
+
+export interface Rect {
+    top: number;
+    left: number;
+    width: number;
+    height: number;
+}
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+interface PositionOptions {
+    target: Rect;
+    card: Size;
+    viewport: Size;
+    position?: StepPosition;
+    offset?: { x: number; y: number };
+    gap?: number; // distance between target and card
+    margin?: number; // minimum distance from the viewport edge
+}
+
+const OPPOSITE: Record<Placement, Placement> = {
+    top: 'bottom',
+    bottom: 'top',
+    left: 'right',
+    right: 'left',
+};
+
+// Free space on each side of the target
+const spaceAround = (target: Rect, viewport: Size): Record<Placement, number> => ({
+    top: target.top,
+    bottom: viewport.height - (target.top + target.height),
+    left: target.left,
+    right: viewport.width - (target.left + target.width),
+});
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), Math.max(min, max));
+
+// Pick a side for the card: the requested one if it fits, else its opposite,
+// else whichever side fits; `auto` and no fit at all both fall back to the
+// side with the most room.
+export const choosePlacement = (
+    target: Rect,
+    card: Size,
+    viewport: Size,
+    position: StepPosition = 'auto',
+    gap = 12
+): Placement => {
+    const space = spaceAround(target, viewport);
+    const fits = (p: Placement) =>
+        space[p] >= (p === 'top' || p === 'bottom' ? card.height : card.width) + gap;
+    const bySpace = (Object.keys(space) as Placement[]).sort((a, b) => space[b] - space[a]);
+
+    if (position === 'auto' || position === 'center') {
+        return bySpace.find(fits) ?? bySpace[0];
+    }
+
+    const candidates: Placement[] = [position, OPPOSITE[position], ...bySpace];
+    return candidates.find(fits) ?? bySpace[0];
+};
+
+// Viewport coordinates for the card next to its target
+export const computeCardPosition = ({
+    target,
+    card,
+    viewport,
+    position = 'auto',
+    offset = { x: 0, y: 0 },
+    gap = 12,
+    margin = 8,
+}: PositionOptions) => {
+    const placement = choosePlacement(target, card, viewport, position, gap);
+
+    let top: number;
+    let left: number;
+    switch (placement) {
+        case 'top':
+            top = target.top - card.height - gap;
+            left = target.left + target.width / 2 - card.width / 2;
+            break;
+        case 'bottom':
+            top = target.top + target.height + gap;
+            left = target.left + target.width / 2 - card.width / 2;
+            break;
+        case 'left':
+            top = target.top + target.height / 2 - card.height / 2;
+            left = target.left - card.width - gap;
+            break;
+        case 'right':
+            top = target.top + target.height / 2 - card.height / 2;
+            left = target.left + target.width + gap;
+            break;
+    }
+
+    // Shift along both axes so the card never leaves the viewport
+    return {
+        placement,
+        top: clamp(top + offset.y, margin, viewport.height - card.height - margin),
+        left: clamp(left + offset.x, margin, viewport.width - card.width - margin),
+    };
+};
+
+// Grow a rect by `padding` on every side, for the spotlight cutout
+export const padRect = (rect: Rect, padding: number): Rect => ({
+    top: rect.top - padding,
+    left: rect.left - padding,
+    width: rect.width + padding * 2,
+    height: rect.height + padding * 2,
+});
+
+// querySelector that treats an invalid selector as "not found"
+export const queryTarget = (selector: string): Element | null => {
+    try {
+        return document.querySelector(selector);
+    } catch {
+        return null;
+    }
+};
+
+const sameRect = (a: Rect | null, b: Rect | null) =>
+    a === b ||
+    (!!a && !!b && a.top === b.top && a.left === b.left && a.width === b.width && a.height === b.height);
+
+const toRect = (r: DOMRect): Rect => ({ top: r.top, left: r.left, width: r.width, height: r.height });
+
+// Viewport rect of the element matching `selector`, kept up to date across
+// scrolling (including nested scroll containers), resizes and DOM changes.
+export const useTargetRect = (selector?: string) => {
+    const [rect, setRect] = useState<Rect | null>(null);
+
+    useEffect(() => {
+        if (!selector) {
+            setRect(null);
+            return;
+        }
+
+        let frame = 0;
+        let observed: Element | null = null;
+        const resizeObserver = new ResizeObserver(() => measure());
+
+        const measure = () => {
+            cancelAnimationFrame(frame);
+            frame = requestAnimationFrame(() => {
+                const element = queryTarget(selector);
+                if (element !== observed) {
+                    if (observed) resizeObserver.unobserve(observed);
+                    if (element) resizeObserver.observe(element);
+                    observed = element;
+                }
+                const next = element ? toRect(element.getBoundingClientRect()) : null;
+                setRect((prev) => (sameRect(prev, next) ? prev : next));
+            });
+        };
+
+        // Bring the target into view when the step starts
+        const element = queryTarget(selector);
+        if (element) {
+            const r = element.getBoundingClientRect();
+            if (r.top < 0 || r.bottom > window.innerHeight) {
+                const reduceMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+                element.scrollIntoView({ block: 'center', behavior: reduceMotion ? 'auto' : 'smooth' });
+            }
+        }
+
+        const mutationObserver = new MutationObserver(measure);
+        mutationObserver.observe(document.body, { childList: true, subtree: true, attributes: true });
+        window.addEventListener('scroll', measure, true);
+        window.addEventListener('resize', measure);
+        measure();
+
+        return () => {
+            cancelAnimationFrame(frame);
+            resizeObserver.disconnect();
+            mutationObserver.disconnect();
+            window.removeEventListener('scroll', measure, true);
+            window.removeEventListener('resize', measure);
+        };
+    }, [selector]);
+
+    return rect;
+};
+
+// Rendered size of an element, re-measured whenever it resizes
+export const useElementSize = (ref: RefObject<HTMLElement>, enabled: boolean) => {
+    const [size, setSize] = useState<Size | null>(null);
+
+    useLayoutEffect(() => {
+        const element = ref.current;
+        if (!enabled || !element) {
+            setSize(null);
+            return;
+        }
+        const update = () => {
+            const next = { width: element.offsetWidth, height: element.offsetHeight };
+            setSize((prev) => (prev && prev.width === next.width && prev.height === next.height ? prev : next));
+        };
+        update();
+        const observer = new ResizeObserver(update);
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, [ref, enabled]);
+
+    return size;
+};
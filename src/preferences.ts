@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+// Live value of a CSS media query
+export const useMediaQuery = (query: string) => {
+    const [matches, setMatches] = useState(() => window.matchMedia(query).matches);
+
+    useEffect(() => {
+        const list = window.matchMedia(query);
+        const update = () => setMatches(list.matches);
+        update();
+        list.addEventListener('change', update);
+        return () => list.removeEventListener('change', update);
+    }, [query]);
+
+    return matches;
+};
+
+export const usePrefersReducedMotion = () => useMediaQuery('(prefers-reduced-motion: reduce)');
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TourConfig } from './types';
+
+const TOUR: TourConfig = {
+    id: 'tour_progress',
+    version: 1,
+    steps: [
+        { id: 'one', title: 'One', content: '' },
+        { id: 'two', title: 'Two', content: '' },
+    ],
+};
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+// A fresh copy, so each test starts with empty in-memory fallbacks
+const loadModule = async () => {
+    vi.resetModules();
+    return import('./progress');
+};
+
+beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+});
+
+describe('when storage is blocked', () => {
+    beforeEach(() => {
+        const denied = () => {
+            throw new DOMException('The operation is insecure.', 'SecurityError');
+        };
+        for (const method of ['getItem', 'setItem', 'removeItem', 'key'] as const) {
+            vi.spyOn(Storage.prototype, method).mockImplementation(denied);
+        }
+    });
+
+    it('keeps the visitor id and progress in memory for the page', async () => {
+        const progress = await loadModule();
+        const visitorId = progress.getVisitorId();
+        expect(progress.getVisitorId()).toBe(visitorId);
+        expect(progress.getBrowserSessionId()).toBe(progress.getBrowserSessionId());
+
+        progress.saveProgress(TOUR, 1, 'ses_1');
+        expect(progress.loadProgress(TOUR)).toMatchObject({ stepIndex: 1, sessionId: 'ses_1' });
+        expect(progress.listInProgressTourIds()).toEqual(['tour_progress']);
+        progress.clearProgress(TOUR);
+        expect(progress.loadProgress(TOUR)).toBeNull();
+
+        progress.saveOutcome(TOUR, 'dismissed');
+        expect(progress.loadOutcome(TOUR)).toBe('dismissed');
+        expect(progress.recordVisit()).toEqual({ first: true, count: 1 });
+        expect(progress.recordVisit()).toEqual({ first: true, count: 1 });
+    });
+
+    it('holds what a full quota refused', async () => {
+        vi.restoreAllMocks();
+        vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+            throw new DOMException('Quota exceeded', 'QuotaExceededError');
+        });
+        const progress = await loadModule();
+        progress.saveOutcome(TOUR, 'completed');
+        expect(progress.loadOutcome(TOUR)).toBe('completed');
+    });
+});
+
+describe('visitor ids', () => {
+    it('use crypto.getRandomValues without crypto.randomUUID', async () => {
+        const getRandomValues = crypto.getRandomValues.bind(crypto);
+        vi.stubGlobal('crypto', { getRandomValues });
+        const progress = await loadModule();
+        expect(progress.getVisitorId()).toMatch(UUID);
+    });
+
+    it('are still unique without Web Crypto', async () => {
+        vi.stubGlobal('crypto', undefined);
+        const progress = await loadModule();
+        const visitorId = progress.getVisitorId();
+        expect(visitorId).toBeTruthy();
+        localStorage.clear();
+        expect(progress.getVisitorId()).not.toBe(visitorId);
+    });
+});
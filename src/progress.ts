@@ -0,0 +1,167 @@
+import type { TourConfig } from './types';
+
+// Per-visitor, per-tour resume state, kept in localStorage so a tour survives
+// full page loads, or in memory when storage is blocked. State saved against
+// another tour version is discarded. Also remembers how each tour ended and
+// how often the visitor came back, for audience rules.
+
+const VISITOR_KEY = 'tourwidget:visitor';
+const PROGRESS_PREFIX = 'tourwidget:progress:';
+const OUTCOME_PREFIX = 'tourwidget:outcome:';
+const VISITS_KEY = 'tourwidget:visits';
+const VISIT_COUNTED_KEY = 'tourwidget:visit-counted';
+const BROWSER_SESSION_KEY = 'tourwidget:browser-session';
+
+export type TourOutcome = 'completed' | 'dismissed';
+
+export interface TourProgress {
+    tourId: string;
+    version?: number;
+    stepIndex: number;
+    sessionId?: string;
+    updatedAt: number;
+}
+
+// Web storage that falls back to memory for this page when the browser
+// refuses it: blocked cookies, sandboxed iframes, a full quota, or no
+// `window` at all
+const withFallback = (getStorage: () => Storage) => {
+    const memory = new Map<string, string>();
+    const attempt = <T>(use: (storage: Storage) => T): T | undefined => {
+        try {
+            return use(getStorage());
+        } catch {
+            return undefined;
+        }
+    };
+    return {
+        getItem: (key: string) => attempt((storage) => storage.getItem(key)) ?? memory.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            const stored = attempt((storage) => {
+                storage.setItem(key, value);
+                return true;
+            });
+            if (stored) memory.delete(key);
+            else memory.set(key, value);
+        },
+        removeItem: (key: string) => {
+            attempt((storage) => storage.removeItem(key));
+            memory.delete(key);
+        },
+        keys: () => {
+            const stored =
+                attempt((storage) => Array.from({ length: storage.length }, (_, i) => storage.key(i) ?? '')) ?? [];
+            return [...new Set([...stored, ...memory.keys()])];
+        },
+    };
+};
+
+const local = withFallback(() => localStorage);
+const session = withFallback(() => sessionStorage);
+
+// A random UUID; `crypto.randomUUID` is missing outside secure contexts and
+// in older browsers
+const randomId = () => {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+    if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+        const bytes = crypto.getRandomValues(new Uint8Array(16));
+        bytes[6] = (bytes[6] & 0x0f) | 0x40; // version 4
+        bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+        const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+        return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+    }
+    // Not a UUID, but unique enough to tell visitors apart
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+};
+
+// Stable anonymous id for this browser
+export const getVisitorId = () => {
+    let visitorId = local.getItem(VISITOR_KEY);
+    if (!visitorId) {
+        visitorId = randomId();
+        local.setItem(VISITOR_KEY, visitorId);
+    }
+    return visitorId;
+};
+
+// Id for this browser session (tab lifetime), for per-session A/B assignment
+export const getBrowserSessionId = () => {
+    let id = session.getItem(BROWSER_SESSION_KEY);
+    if (!id) {
+        id = randomId();
+        session.setItem(BROWSER_SESSION_KEY, id);
+    }
+    return id;
+};
+
+const progressKey = (tourId: string) => `${PROGRESS_PREFIX}${getVisitorId()}:${tourId}`;
+
+const tourKeyId = (tour: TourConfig) => tour.id || 'demo_tour';
+
+const readProgress = (key: string): TourProgress | null => {
+    try {
+        const raw = local.getItem(key);
+        return raw ? (JSON.parse(raw) as TourProgress) : null;
+    } catch {
+        return null;
+    }
+};
+
+// Saved progress for a tour, if it matches the tour's current version
+export const loadProgress = (tour: TourConfig): TourProgress | null => {
+    const key = progressKey(tourKeyId(tour));
+    const progress = readProgress(key);
+    if (!progress) return null;
+    if (progress.version !== tour.version || progress.stepIndex >= tour.steps.length) {
+        local.removeItem(key);
+        return null;
+    }
+    return progress;
+};
+
+export const saveProgress = (tour: TourConfig, stepIndex: number, sessionId: string | null) => {
+    const progress: TourProgress = {
+        tourId: tourKeyId(tour),
+        version: tour.version,
+        stepIndex,
+        sessionId: sessionId ?? undefined,
+        updatedAt: Date.now(),
+    };
+    local.setItem(progressKey(progress.tourId), JSON.stringify(progress));
+};
+
+export const clearProgress = (tour: TourConfig) => {
+    local.removeItem(progressKey(tourKeyId(tour)));
+};
+
+// Ids of every tour this visitor is part-way through
+export const listInProgressTourIds = () => {
+    const prefix = `${PROGRESS_PREFIX}${getVisitorId()}:`;
+    return local
+        .keys()
+        .filter((key) => key.startsWith(prefix))
+        .map((key) => key.slice(prefix.length));
+};
+
+const outcomeKey = (tour: TourConfig) => `${OUTCOME_PREFIX}${getVisitorId()}:${tourKeyId(tour)}`;
+
+// How the visitor last finished a tour, if they did
+export const loadOutcome = (tour: TourConfig): TourOutcome | null => {
+    const outcome = local.getItem(outcomeKey(tour));
+    return outcome === 'completed' || outcome === 'dismissed' ? outcome : null;
+};
+
+export const saveOutcome = (tour: TourConfig, outcome: TourOutcome) => {
+    local.setItem(outcomeKey(tour), outcome);
+};
+
+// Count this browser session as a visit, once, and return the running total
+export const recordVisit = () => {
+    let count = Number(local.getItem(VISITS_KEY)) || 0;
+    if (!session.getItem(VISIT_COUNTED_KEY)) {
+        count += 1;
+        local.setItem(VISITS_KEY, String(count));
+        session.setItem(VISIT_COUNTED_KEY, '1');
+    }
+    return { first: count <= 1, count: Math.max(count, 1) };
+};
@@ -0,0 +1,64 @@
+import { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import { createPortal } from 'react-dom';
+import { Widget } from './Widget';
+import { bindCallbacks, createTourController } from './controller';
+import type { TourController } from './controller';
+import { createShadowContainer } from './mount';
+import { toWidgetProps } from './vanilla';
+import type { TourWidgetOptions } from './vanilla';
+
+// React SDK: `<TourProvider>` renders the widget into the host app's own
+// React tree and `useTour()` drives it, e.g. from a "Show me how" button:
+//
+//   const tour = useTour();
+//   <button onClick={() => tour.start('tour_id')}>Show me how</button>
+
+export type { TourCallbacks, TourController, TourEventHandler, TourEventName, TourEvents } from './controller';
+export type { TourWidgetOptions, Visitor } from './vanilla';
+
+// Step content rendered and sanitized exactly as the widget does it, for
+// host apps that draw their own step cards
+export { StepContent, renderContentHtml } from './content';
+export type { StepContentProps } from './content';
+
+export interface TourProviderProps extends TourWidgetOptions {
+    children?: ReactNode;
+}
+
+const TourContext = createContext<TourController | null>(null);
+
+export const TourProvider = ({ children, ...options }: TourProviderProps) => {
+    const [controller] = useState(createTourController);
+    const [container, setContainer] = useState<HTMLElement | null>(null);
+
+    // Callbacks are read when events fire, so inline functions don't resubscribe
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+    useEffect(() => bindCallbacks(controller, () => optionsRef.current), [controller]);
+
+    useEffect(() => {
+        const mount = createShadowContainer();
+        setContainer(mount.container);
+        return mount.remove;
+    }, []);
+
+    const tour = useMemo<TourController>(
+        () => ({ start: controller.start, stop: controller.stop, goTo: controller.goTo, on: controller.on }),
+        [controller]
+    );
+
+    return (
+        <TourContext.Provider value={tour}>
+            {children}
+            {container && createPortal(<Widget {...toWidgetProps(options)} controller={controller} />, container)}
+        </TourContext.Provider>
+    );
+};
+
+// Start, stop and step through tours, and subscribe to their events
+export const useTour = () => {
+    const tour = useContext(TourContext);
+    if (!tour) throw new Error('useTour must be used inside <TourProvider>');
+    return tour;
+};
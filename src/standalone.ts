@@ -0,0 +1,47 @@
+import * as React from 'react';
+import * as jsxRuntime from 'react/jsx-runtime';
+import { setBundleUrl } from './avatar';
+import { getWidget, init } from './main';
+import type { TourWidgetOptions } from './main';
+
+// Entry of the self-contained script-tag build (`vite build --mode standalone`),
+// exposed on the page as `window.TourWidget`
+export * from './main';
+
+// What the separately built avatar scene borrows from this bundle, so the page
+// runs a single copy of React
+export const shared = { React, jsxRuntime };
+
+// This bundle's own <script>, which is only known while it first runs. Other
+// tags on the page, such as a second embed, are never mistaken for it.
+const script = document.currentScript instanceof HTMLScriptElement ? document.currentScript : null;
+
+// The avatar scene is built next to this bundle
+if (script) setBundleUrl(script.src);
+
+// Configuration from the embedding <script data-api-key="pk_live_..." data-api-url="..."
+// data-tour-id="..." data-locale="fr-CA" data-auto-start="false">, see convex/lib/embed.ts
+const readScriptOptions = (script: HTMLScriptElement): TourWidgetOptions => ({
+    apiKey: script.dataset.apiKey,
+    apiUrl: script.dataset.apiUrl,
+    locale: script.dataset.locale,
+    tourId: script.dataset.tourId,
+    autoStart: script.dataset.autoStart !== 'false',
+});
+
+// Mount straight away for the embed snippet; otherwise the host page calls
+// `TourWidget.init({...})`
+if (script?.dataset.apiKey) {
+    const options = readScriptOptions(script);
+    if (document.readyState === 'loading') {
+        document.addEventListener(
+            'DOMContentLoaded',
+            () => {
+                if (!getWidget()) init(options);
+            },
+            { once: true }
+        );
+    } else {
+        init(options);
+    }
+}
@@ -0,0 +1,31 @@
+import { evaluateAudience } from '../convex/lib/audience';
+import type { AudienceValue } from '../convex/lib/audience';
+import { parseUserAgent } from '../convex/lib/userAgent';
+import { loadOutcome } from './progress';
+import type { TourConfig } from './types';
+
+// Client-side audience check. Runs the backend's rules engine with the full
+// visitor context, so rules the server left undecided are settled here.
+
+// Attributes the host page knows about the visitor, e.g. plan, role, signupDate
+export type VisitorTraits = Record<string, AudienceValue | undefined>;
+
+interface VisitorContext {
+    locale: string;
+    visitor?: VisitorTraits;
+    visit: { first: boolean; count: number };
+}
+
+// Whether this visitor should see `tour`; rules on traits the page didn't pass fail
+export const isTourEligible = (tour: TourConfig, { locale, visitor, visit }: VisitorContext) => {
+    const outcome = loadOutcome(tour);
+    const verdict = evaluateAudience(tour.audience, {
+        now: Date.now(),
+        locale,
+        ...parseUserAgent(navigator.userAgent),
+        visit,
+        tour: { completed: outcome === 'completed', dismissed: outcome === 'dismissed' },
+        visitor: visitor ?? {},
+    });
+    return verdict === true;
+};
@@ -0,0 +1,174 @@
+import { useMemo } from 'react';
+import type React from 'react';
+import { useMediaQuery } from './preferences';
+import type { TourConfig } from './types';
+
+// Tour theming: a light or dark palette derived from the tour's primary
+// color, exposed to the widget as CSS variables (see tailwind.config.js),
+// plus scoping for per-step custom CSS.
+
+const DEFAULT_PRIMARY = '#4f46e5';
+
+type Rgb = [number, number, number];
+
+export interface Palette {
+    primary: string;
+    primaryHover: string;
+    onPrimary: string;
+    primarySoft: string;
+    surface: string;
+    text: string;
+    muted: string;
+    border: string;
+    subtle: string;
+    subtleHover: string;
+    overlay: string;
+}
+
+const parseHex = (color: string): Rgb | null => {
+    const hex = color.trim().replace(/^#/, '');
+    const full = hex.length === 3 ? hex.replace(/./g, (c) => c + c) : hex;
+    if (!/^[0-9a-f]{6}$/i.test(full)) return null;
+    return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16)) as Rgb;
+};
+
+const toHex = (rgb: Rgb) => `#${rgb.map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+
+// Linear blend from `a` (t = 0) to `b` (t = 1)
+const mix = (a: Rgb, b: Rgb, t: number): Rgb => [0, 1, 2].map((i) => a[i] + (b[i] - a[i]) * t) as Rgb;
+
+// WCAG relative luminance and contrast ratio
+const luminance = (rgb: Rgb) => {
+    const [r, g, b] = rgb.map((c) => {
+        const s = c / 255;
+        return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+const contrast = (a: Rgb, b: Rgb) => {
+    const [hi, lo] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+    return (hi + 0.05) / (lo + 0.05);
+};
+
+const WHITE: Rgb = [255, 255, 255];
+const BLACK: Rgb = [0, 0, 0];
+const INK: Rgb = [17, 24, 39];
+
+const SURFACES = {
+    light: {
+        surface: [255, 255, 255] as Rgb,
+        text: '#1f2937',
+        muted: '#6b7280',
+        border: '#e5e7eb',
+        subtle: '#f3f4f6',
+        subtleHover: '#e5e7eb',
+        overlay: 'rgba(15, 23, 42, 0.55)',
+    },
+    dark: {
+        surface: [17, 24, 39] as Rgb,
+        text: '#f3f4f6',
+        muted: '#9ca3af',
+        border: '#374151',
+        subtle: '#1f2937',
+        subtleHover: '#374151',
+        overlay: 'rgba(0, 0, 0, 0.7)',
+    },
+};
+
+export const derivePalette = (primaryColor: string | undefined, mode: 'light' | 'dark'): Palette => {
+    const { surface, ...neutrals } = SURFACES[mode];
+    let primary = parseHex(primaryColor ?? '') ?? (parseHex(DEFAULT_PRIMARY) as Rgb);
+
+    // Keep the accent legible against the card background
+    for (let i = 0; i < 5 && contrast(primary, surface) < 3; i++) {
+        primary = mix(primary, mode === 'dark' ? WHITE : BLACK, 0.2);
+    }
+
+    return {
+        ...neutrals,
+        primary: toHex(primary),
+        primaryHover: toHex(mix(primary, mode === 'dark' ? WHITE : BLACK, 0.15)),
+        onPrimary: contrast(primary, WHITE) >= contrast(primary, INK) ? '#ffffff' : toHex(INK),
+        primarySoft: toHex(mix(primary, surface, 0.8)),
+        surface: toHex(surface),
+    };
+};
+
+export const paletteToVars = (palette: Palette) =>
+    ({
+        '--tour-primary': palette.primary,
+        '--tour-primary-hover': palette.primaryHover,
+        '--tour-on-primary': palette.onPrimary,
+        '--tour-primary-soft': palette.primarySoft,
+        '--tour-surface': palette.surface,
+        '--tour-text': palette.text,
+        '--tour-muted': palette.muted,
+        '--tour-border': palette.border,
+        '--tour-subtle': palette.subtle,
+        '--tour-subtle-hover': palette.subtleHover,
+        '--tour-overlay': palette.overlay,
+    }) as React.CSSProperties;
+
+// Palette for a tour; `auto` follows the visitor's color scheme
+export const useTourPalette = (tour: Pick<TourConfig, 'theme' | 'primaryColor'> | null) => {
+    const prefersDark = useMediaQuery('(prefers-color-scheme: dark)');
+    const theme = tour?.theme ?? 'light';
+    const mode = theme === 'auto' ? (prefersDark ? 'dark' : 'light') : theme;
+    const palette = useMemo(() => derivePalette(tour?.primaryColor, mode), [tour?.primaryColor, mode]);
+    return { mode, palette };
+};
+
+// Split a selector list on top-level commas, leaving `:is(a, b)` intact
+const splitSelectors = (selectorText: string) => {
+    const selectors: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of selectorText) {
+        if (char === '(' || char === '[') depth++;
+        if (char === ')' || char === ']') depth--;
+        if (char === ',' && depth === 0) {
+            selectors.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    if (current.trim()) selectors.push(current.trim());
+    return selectors;
+};
+
+const scopeSelector = (selector: string, scope: string) =>
+    selector.startsWith(':scope') ? scope + selector.slice(':scope'.length) : `${scope} ${selector}`;
+
+const scopeRules = (rules: CSSRuleList, scope: string): string[] => {
+    const out: string[] = [];
+    for (const rule of Array.from(rules)) {
+        if (rule instanceof CSSStyleRule) {
+            rule.selectorText = splitSelectors(rule.selectorText)
+                .map((selector) => scopeSelector(selector, scope))
+                .join(', ');
+            out.push(rule.cssText);
+        } else if (rule instanceof CSSMediaRule) {
+            out.push(`@media ${rule.conditionText} { ${scopeRules(rule.cssRules, scope).join(' ')} }`);
+        } else if (rule instanceof CSSSupportsRule) {
+            out.push(`@supports ${rule.conditionText} { ${scopeRules(rule.cssRules, scope).join(' ')} }`);
+        } else if (rule instanceof CSSKeyframesRule || rule instanceof CSSFontFaceRule) {
+            out.push(rule.cssText);
+        }
+        // Anything else, notably @import, is dropped
+    }
+    return out;
+};
+
+// Rewrite a step's custom CSS so every rule only matches inside `scope`.
+// `:scope` targets the scope element itself, e.g. `:scope { border: 0 }`.
+export const scopeCss = (css: string, scope: string) => {
+    try {
+        const sheet = new CSSStyleSheet();
+        sheet.replaceSync(css);
+        return scopeRules(sheet.cssRules, scope).join('\n');
+    } catch {
+        return '';
+    }
+};
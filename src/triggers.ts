@@ -0,0 +1,43 @@
+import type { TourConfig } from './types';
+
+// Window event host pages dispatch to start tours with `triggerEvent: "custom"`
+export const CUSTOM_TRIGGER_EVENT = 'tourwidget:start';
+
+// Window event host pages dispatch when a visitor reaches a conversion goal,
+// e.g. `new CustomEvent('tourwidget:goal', { detail: { name: 'signup' } })`.
+// It's recorded as a custom event on the current tour session.
+export const GOAL_EVENT = 'tourwidget:goal';
+
+// Call `start` once the tour's trigger fires, after its `triggerDelay`.
+// Returns a cleanup that cancels a pending trigger.
+export const onTourTrigger = (tour: TourConfig, start: () => void) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let detach = () => {};
+
+    const fire = () => {
+        detach();
+        timer = setTimeout(start, tour.triggerDelay ?? 0);
+    };
+
+    switch (tour.triggerEvent ?? 'pageload') {
+        case 'click':
+            document.addEventListener('click', fire, { capture: true });
+            detach = () => document.removeEventListener('click', fire, { capture: true });
+            break;
+        case 'scroll':
+            window.addEventListener('scroll', fire, { passive: true });
+            detach = () => window.removeEventListener('scroll', fire);
+            break;
+        case 'custom':
+            window.addEventListener(CUSTOM_TRIGGER_EVENT, fire);
+            detach = () => window.removeEventListener(CUSTOM_TRIGGER_EVENT, fire);
+            break;
+        default:
+            fire();
+    }
+
+    return () => {
+        detach();
+        clearTimeout(timer);
+    };
+};
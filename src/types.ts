@@ -0,0 +1,86 @@
+import type { AudienceRule } from '../convex/lib/audience';
+
+// Tour and step shapes as served by the backend's `/api/tours` endpoint.
+// Everything but the content is optional so hand-written tours stay short.
+
+export type StepPosition = 'top' | 'bottom' | 'left' | 'right' | 'center' | 'auto';
+
+export type AvatarType = 'robot' | 'human' | 'custom';
+
+export type AvatarAnimation = 'idle' | 'wave' | 'point' | 'nod' | 'celebrate';
+
+// Per-step avatar overrides; unset fields fall back to the tour's settings
+export interface AvatarConfig {
+    enabled: boolean;
+    avatarType?: AvatarType;
+    modelUrl?: string; // glTF/GLB model for the "custom" avatar
+    animation?: AvatarAnimation;
+    position?: 'left' | 'right' | 'top'; // side of the card the avatar sits on
+}
+
+export interface StepTranslation {
+    title?: string;
+    content?: string;
+    buttonText?: string;
+    imageAlt?: string;
+}
+
+export type FeedbackType = 'helpful' | 'confusing' | 'too_long' | 'too_short' | 'technical_issue' | 'other';
+
+// When to ask visitors to rate the tour; off unless enabled
+export interface FeedbackPrompt {
+    onComplete?: boolean;
+    onSkip?: boolean;
+    question?: string; // replaces the default "How was this tour?"
+}
+
+export interface Step {
+    id: string;
+    order?: number;
+    locale?: string; // language of title/content, when known
+    title: string;
+    content: string;
+    contentType?: 'text' | 'html' | 'markdown';
+    translations?: Record<string, StepTranslation>; // keyed by BCP 47 tag, e.g. "fr-CA"
+    pageUrl?: string; // URL or route pattern; steps without one show on any page
+    targetElement?: string; // CSS selector
+    highlightElement?: boolean;
+    highlightPadding?: number;
+    position?: StepPosition;
+    offset?: { x: number; y: number };
+    avatarConfig?: AvatarConfig;
+    imageUrl?: string;
+    imageAlt?: string;
+    videoUrl?: string;
+    requireInteraction?: boolean;
+    interactionElement?: string;
+    buttonText?: string;
+    showBackButton?: boolean;
+    customCSS?: string;
+    waitForElement?: string;
+    waitTimeout?: number;
+}
+
+export interface TourConfig {
+    id?: string;
+    name?: string;
+    theme?: 'light' | 'dark' | 'auto';
+    primaryColor?: string;
+    position?: 'top' | 'bottom' | 'left' | 'right' | 'center';
+    autoStart?: boolean;
+    showProgress?: boolean;
+    allowSkip?: boolean;
+    allowRestart?: boolean;
+    enableAvatar?: boolean;
+    avatarType?: AvatarType;
+    avatarModelUrl?: string;
+    enableWebGL?: boolean; // false renders the 2D avatar only
+    triggerEvent?: string; // "pageload", "click", "scroll", "custom"
+    triggerDelay?: number; // milliseconds
+    completionRedirect?: string;
+    audience?: AudienceRule; // who sees the tour; unset means everyone
+    feedbackPrompt?: FeedbackPrompt;
+    variantId?: string; // A/B variant this visitor was assigned
+    version?: number; // published version, bumped on every publish or rollback
+    steps: Step[];
+}
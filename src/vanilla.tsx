@@ -0,0 +1,79 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { Widget } from './Widget';
+import { bindCallbacks, createTourController } from './controller';
+import type { TourCallbacks, TourController, WidgetBridge } from './controller';
+import { createShadowContainer } from './mount';
+import type { VisitorTraits } from './targeting';
+
+// Framework-agnostic SDK: mount a widget and drive it from any host page.
+
+// Who the visitor is, as far as the host app knows
+export interface Visitor {
+    id?: string; // the host app's user id; recorded on sessions and used for A/B assignment
+    traits?: VisitorTraits; // attributes for audience rules, e.g. { plan: 'pro' }
+}
+
+export interface TourWidgetOptions extends TourCallbacks {
+    apiKey?: string; // public pk_live_ key
+    apiUrl?: string; // base URL of the backend HTTP endpoints
+    locale?: string; // BCP 47 tag; defaults to the browser's language
+    tourId?: string; // only ever show this tour
+    autoStart?: boolean; // false waits for `start()` instead of the tour's trigger
+    visitor?: Visitor;
+}
+
+export interface TourWidgetInstance extends TourController {
+    // Replace what's known about the visitor, e.g. once they sign in
+    identify: (visitor: Visitor) => void;
+    // Remove the widget from the page
+    destroy: () => void;
+}
+
+export const toWidgetProps = ({ apiKey, apiUrl, locale, tourId, autoStart, visitor }: TourWidgetOptions) => ({
+    apiKey,
+    apiUrl,
+    locale,
+    tourId,
+    autoStart,
+    visitor: visitor?.traits,
+    visitorId: visitor?.id,
+});
+
+// Mount a widget driven by `controller`
+export const mountWidget = (
+    options: TourWidgetOptions,
+    controller: TourController & WidgetBridge
+): TourWidgetInstance => {
+    let current = options;
+    const unbind = bindCallbacks(controller, () => current);
+    const { container, remove } = createShadowContainer();
+    const root = ReactDOM.createRoot(container);
+
+    const render = () =>
+        root.render(
+            <React.StrictMode>
+                <Widget {...toWidgetProps(current)} controller={controller} />
+            </React.StrictMode>
+        );
+    render();
+
+    return {
+        start: controller.start,
+        stop: controller.stop,
+        goTo: controller.goTo,
+        on: controller.on,
+        identify: (visitor) => {
+            current = { ...current, visitor };
+            render();
+        },
+        destroy: () => {
+            unbind();
+            root.unmount();
+            remove();
+        },
+    };
+};
+
+// Mount a widget with its own controller; any number can share a page
+export const createTourWidget = (options: TourWidgetOptions = {}) => mountWidget(options, createTourController());
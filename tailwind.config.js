@@ -2,7 +2,23 @@
 const config = {
 	content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
 	theme: {
-		extend: {},
+		extend: {
+			// Tour palette, set as CSS variables by src/theme.ts
+			colors: {
+				tour: {
+					primary: 'var(--tour-primary)',
+					'primary-hover': 'var(--tour-primary-hover)',
+					'on-primary': 'var(--tour-on-primary)',
+					'primary-soft': 'var(--tour-primary-soft)',
+					surface: 'var(--tour-surface)',
+					text: 'var(--tour-text)',
+					muted: 'var(--tour-muted)',
+					border: 'var(--tour-border)',
+					subtle: 'var(--tour-subtle)',
+					'subtle-hover': 'var(--tour-subtle-hover)',
+				},
+			},
+		},
 	},
 	plugins: [],
 };
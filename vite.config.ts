@@ -1,24 +1,83 @@
 import { defineConfig } from 'vite';
+import type { Plugin, UserConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { resolve } from 'path';
+import { gzipSync } from 'zlib';
 
-// https://vitejs.dev/config/
-export default defineConfig({
-	plugins: [react()],
+// Three builds share dist/:
+//   vite build                          ESM SDK for npm (main.tsx, react.tsx), React left to the host app
+//   vite build --mode standalone        IIFE for a plain <script> tag, everything bundled
+//   vite build --mode standalone-avatar the WebGL avatar scene the IIFE loads on demand
+// `npm run build` runs all three.
+
+// Gzipped size limits in KiB; a build over budget fails
+const SIZE_BUDGETS_KB: Record<string, number> = {
+	'tour-widget.iife.js': 150,
+	'tour-widget-avatar.iife.js': 300,
+};
+
+const sizeBudget = (): Plugin => ({
+	name: 'size-budget',
+	generateBundle(_, bundle) {
+		for (const file of Object.values(bundle)) {
+			const budget = SIZE_BUDGETS_KB[file.fileName];
+			if (budget === undefined) continue;
+			const source = file.type === 'chunk' ? file.code : file.source;
+			const size = gzipSync(source).length / 1024;
+			if (size > budget) {
+				this.error(`${file.fileName} is ${size.toFixed(1)} KiB gzipped, over its ${budget} KiB budget`);
+			}
+			this.info(`${file.fileName}: ${size.toFixed(1)} / ${budget} KiB gzipped`);
+		}
+	},
+});
+
+const standalone = (entry: string, name: string, fileName: string, globals: Record<string, string> = {}): UserConfig => ({
+	plugins: [react(), sizeBudget()],
+	// Libraries such as React check `process.env.NODE_ENV`, which only the
+	// host's bundler would otherwise replace
+	define: { 'process.env.NODE_ENV': JSON.stringify('production') },
 	build: {
+		emptyOutDir: false,
 		lib: {
-			entry: resolve(__dirname, 'src/main.tsx'),
-			name: 'TourWidget',
-			fileName: 'tour-widget',
+			entry: resolve(__dirname, entry),
+			name,
+			formats: ['iife'],
+			fileName: () => fileName,
 		},
 		rollupOptions: {
-			external: ['react', 'react-dom'], // If we want to bundle react, remove this
-			output: {
-				globals: {
-					react: 'React',
-					'react-dom': 'ReactDOM',
-				},
-			},
+			external: Object.keys(globals),
+			output: { globals },
 		},
 	},
 });
+
+// https://vitejs.dev/config/
+export default defineConfig(({ mode }) => {
+	switch (mode) {
+		case 'standalone':
+			return standalone('src/standalone.ts', 'TourWidget', 'tour-widget.iife.js');
+		case 'standalone-avatar':
+			// React comes from the main bundle, see src/standalone.ts
+			return standalone('src/avatarScene.tsx', 'TourWidgetAvatarScene', 'tour-widget-avatar.iife.js', {
+				react: 'TourWidget.shared.React',
+				'react/jsx-runtime': 'TourWidget.shared.jsxRuntime',
+			});
+		default:
+			return {
+				plugins: [react()],
+				build: {
+					lib: {
+						entry: {
+							'tour-widget': resolve(__dirname, 'src/main.tsx'),
+							'tour-widget-react': resolve(__dirname, 'src/react.tsx'),
+						},
+						formats: ['es'],
+					},
+					rollupOptions: {
+						external: [/^react($|\/)/, /^react-dom($|\/)/],
+					},
+				},
+			};
+	}
+});
@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+import react from '@vitejs/plugin-react';
+
+// Widget tests run in jsdom; Convex function tests run in the edge runtime
+// convex-test expects, see convex/test.setup.ts
+export default defineConfig({
+	plugins: [react()],
+	test: {
+		environment: 'jsdom',
+		environmentMatchGlobs: [['convex/**', 'edge-runtime']],
+		setupFiles: ['./vitest.setup.ts'],
+		server: { deps: { inline: ['convex-test'] } },
+	},
+});
@@ -0,0 +1,28 @@
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// Browser APIs the widget uses that jsdom doesn't implement
+if (typeof window !== 'undefined') {
+	afterEach(cleanup);
+
+	window.matchMedia ??= (query: string) =>
+		({
+			matches: false,
+			media: query,
+			onchange: null,
+			addEventListener: () => {},
+			removeEventListener: () => {},
+			addListener: () => {},
+			removeListener: () => {},
+			dispatchEvent: () => false,
+		}) as MediaQueryList;
+
+	globalThis.ResizeObserver ??= class {
+		observe() {}
+		unobserve() {}
+		disconnect() {}
+	};
+
+	globalThis.CSS ??= {} as typeof CSS;
+	CSS.escape ??= (value: string) => value.replace(/[^\w-]/g, (char) => `\\${char}`);
+}